@@ -1,37 +1,58 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { HashRouter as Router, Routes, Route, Link, useNavigate, Navigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { HashRouter as Router, Routes, Route, Link, useNavigate, Navigate, useSearchParams, useParams } from 'react-router-dom';
 import ReactMarkdown from 'react-markdown';
-import { Flashcard, Difficulty, User } from './types';
-import { processArticle, playPronunciation, summarizeArticle, getSuggestedMaterial } from './services/geminiService';
-import { initializeCard, scheduleReview } from './services/srsService';
-import { auth, db as firestore, isFirebaseConfigured } from './services/firebase';
-import { 
-  signInWithEmailAndPassword, 
-  createUserWithEmailAndPassword, 
-  signOut, 
-  onAuthStateChanged 
-} from 'firebase/auth';
-import { 
-  collection, 
-  query, 
-  where, 
-  getDocs, 
-  setDoc, 
-  doc, 
-  deleteDoc,
-  writeBatch
-} from 'firebase/firestore';
+import { Flashcard, Difficulty, User, ReviewLog, CardState, Article, CardTemplate, PronunciationAttempt, CefrLevel, LearningProfile, StudyItem, StudySession, SessionAnswer } from './types';
+import { EditableCardField, ProcessedArticle, aiErrorMessage } from './services/aiProvider';
+import { currentProvider, selectProvider, availableProviders, AI_PROVIDER_LABELS } from './services/ai';
+import { initializeCard, scheduleReview, previewReview, formatInterval, createReviewLog, isInSteps, parseSteps, formatSteps, DEFAULT_SRS_PARAMS, SrsParams } from './services/srsService';
+import { parseFilters, toSearchParams, applyFilters, VaultFilters, DueFilter, SortKey, StatusFilter, PAGE_SIZE } from './services/vaultQuery';
+import { isBuried, isStudyable, setSuspended, buryUntilTomorrow, clearLeech, checkLeech, parseLeechSettings, LeechSettings, LeechAction, LEECH_ACTION_LABELS } from './services/cardStatusService';
+import { getDueForecast, getActivityCalendar, summarizeSession, getRetentionByState, getSourceBreakdown, countBy, CARD_STATE_LABELS } from './services/statsService';
+import { repository, authService, isBackendConfigured } from './services/backend';
+import { SyncStatus } from './services/syncRepository';
+import { parseBackup, planRestore, RestorePlan } from './services/backupService';
+import { findArticle, createArticle, isUrl, replaceCardIds } from './services/libraryService';
+import { normalizeWord, findDuplicateGroups, mergeDuplicates, repointReviewLogs, pickPrimary, splitByFamily, FamilyCollision } from './services/lemmaService';
+import { CARD_TEMPLATES, TEMPLATE_LABELS, DEFAULT_TEMPLATES, DEFAULT_LISTENING, ListeningSettings, getTemplateCard, setTemplateCard, totalLapses, clozeContext, listeningText } from './services/templateService';
+import { gradeAnswer, gradeChoice, meaningChoices, expectedAnswer, AnswerGrade } from './services/answerService';
+import { assessor, startRecording, recordAttempt, pronunciationTrend, Recording } from './services/pronunciationService';
+import { playPronunciation, prefetchPronunciations } from './services/audioService';
+import { buildQueue, countsForToday, countRating, parseLimits, DailyLimits, DailyCounts, NewCardMix, NEW_MIX_LABELS, StudyQueue } from './services/queueService';
+import { CEFR_LEVELS, LANGUAGES, SUGGESTED_DOMAINS, MIN_WORDS_PER_ARTICLE, MAX_WORDS_PER_ARTICLE, parseProfile, languageName, cefrRange } from './services/profileService';
+import { segmentText, splitParagraphs, sentenceAround, STATE_HIGHLIGHTS } from './services/readerService';
+import { parseDelimited, looksLikeHeader, guessMapping, rowsToCards, toAnkiNotes, toCsv, ImportField, IMPORT_FIELD_LABELS, ParsedTable } from './services/interopService';
+
+/** Plays on a click; unlike autoplay, a click that produces no sound is reported. */
+const speak = async (text: string, rate?: number) => {
+  if (!(await playPronunciation(text, rate))) alert("Audio is unavailable. Check your connection and try again.");
+};
 
 // --- User-Scoped Storage Keys ---
 const STORAGE_KEYS = {
   SESSION: 'lingoflow_active_session',
   INPUT: (uid: string) => `lingoflow_input_${uid}`,
   SUMMARY: (uid: string) => `lingoflow_summary_${uid}`,
+  SRS_SETTINGS: (uid: string) => `lingoflow_srs_${uid}`,
+  TEMPLATES: (uid: string) => `lingoflow_templates_${uid}`,
+  TYPED_ANSWERS: (uid: string) => `lingoflow_typed_${uid}`,
+  LISTENING: (uid: string) => `lingoflow_listening_${uid}`,
+  AI_PROVIDER: (uid: string) => `lingoflow_ai_provider_${uid}`,
+  PROFILE: (uid: string) => `lingoflow_profile_${uid}`,
+  DAILY_LIMITS: (uid: string) => `lingoflow_daily_limits_${uid}`,
+  DAILY_COUNTS: (uid: string) => `lingoflow_daily_counts_${uid}`,
+  LEECH: (uid: string) => `lingoflow_leech_${uid}`,
   SUGGESTIONS: 'lingoflow_global_suggestions',
   SUGGESTIONS_TS: 'lingoflow_suggestions_ts'
 };
 
+const loadProfile = (uid: string): LearningProfile => parseProfile(localStorage.getItem(STORAGE_KEYS.PROFILE(uid)));
+
+const loadSrsParams = (uid: string): SrsParams => {
+  const stored = localStorage.getItem(STORAGE_KEYS.SRS_SETTINGS(uid));
+  return { ...DEFAULT_SRS_PARAMS, ...(stored ? JSON.parse(stored) : {}) };
+};
+
 // --- UI Components ---
 
 const LoadingOverlay: React.FC<{ message: string }> = ({ message }) => (
@@ -44,6 +65,61 @@ const LoadingOverlay: React.FC<{ message: string }> = ({ message }) => (
   </div>
 );
 
+/** Lists incoming words that share a stem with a vault card, so unrelated ones can still be kept. */
+const FamilyCollisionDialog: React.FC<{ collisions: FamilyCollision[]; onDone: (kept: Flashcard[]) => void }> = ({ collisions, onDone }) => {
+  const [kept, setKept] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => setKept(prev => {
+    const next = new Set(prev);
+    if (!next.delete(id)) next.add(id);
+    return next;
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/80 backdrop-blur-md">
+      <div className="bg-[#0a0a0a] border border-white/10 p-10 rounded-[2rem] max-w-2xl w-full shadow-2xl space-y-8 flex flex-col max-h-[90vh]">
+        <div>
+          <h3 className="text-[#00F3FF] text-[10px] font-black uppercase tracking-[0.3em]">Similar Words</h3>
+          <p className="text-white/40 text-xs font-light mt-2">
+            {collisions.length} word(s) look like a form of a card already in the vault and were held back. Tick any that are a different word to keep them as their own card.
+          </p>
+        </div>
+        <div className="flex-grow overflow-y-auto space-y-3 pr-2">
+          {collisions.map(({ card, match }) => (
+            <label key={card.id} className="flex items-center gap-4 bg-white/5 border border-white/5 p-4 rounded-2xl cursor-pointer">
+              <input type="checkbox" checked={kept.has(card.id)} onChange={() => toggle(card.id)} className="accent-[#39FF14]" />
+              <span className="text-sm text-white">{card.word}</span>
+              <span className="text-xs text-white/40">matches "{match.word}"</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-4">
+          <button onClick={() => onDone(collisions.filter(c => kept.has(c.card.id)).map(c => c.card))} disabled={kept.size === 0} className="flex-1 py-4 bg-[#39FF14]/10 border border-[#39FF14]/20 text-[#39FF14] font-black uppercase tracking-[0.2em] text-[10px] rounded-xl hover:bg-[#39FF14]/20 transition-all disabled:opacity-30">Keep Selected</button>
+          <button onClick={() => onDone([])} className="flex-1 py-4 bg-white/5 border border-white/10 text-white font-black uppercase tracking-[0.2em] text-[10px] rounded-xl hover:bg-white/10 transition-all">Skip All</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SyncIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => repository.subscribe(setStatus), []);
+
+  if (!status) return null;
+  const label = !status.online ? `Offline${status.pending ? ` · ${status.pending} queued` : ''}`
+    : status.syncing ? 'Syncing'
+    : status.error ? 'Sync Error'
+    : status.pending ? `${status.pending} queued`
+    : 'Synced';
+  const color = !status.online || status.error ? 'text-red-500/60' : status.pending || status.syncing ? 'text-white/40' : 'text-[#39FF14]/60';
+
+  return (
+    <span title={status.error || undefined} className={`text-[9px] font-black uppercase tracking-[0.2em] ${color} ${status.syncing ? 'animate-pulse' : ''}`}>{label}</span>
+  );
+};
+
 const Navbar: React.FC<{ user: User | null; onLogout: () => void }> = ({ user, onLogout }) => (
   <nav className="fixed top-0 left-0 w-full z-40 border-b border-white/5 bg-black/60 backdrop-blur-xl">
     <div className="max-w-5xl mx-auto px-8 h-20 flex items-center justify-between">
@@ -55,9 +131,13 @@ const Navbar: React.FC<{ user: User | null; onLogout: () => void }> = ({ user, o
           <Link to="/" className="text-white/40 hover:text-white transition-colors">Process</Link>
           <Link to="/study" className="text-white/40 hover:text-white transition-colors">Study</Link>
           <Link to="/bank" className="text-white/40 hover:text-white transition-colors">Bank</Link>
+          <Link to="/library" className="text-white/40 hover:text-white transition-colors">Library</Link>
+          <Link to="/stats" className="text-white/40 hover:text-white transition-colors">Stats</Link>
+          <Link to="/settings" className="text-white/40 hover:text-white transition-colors">Profile</Link>
         </div>
         {user && (
           <div className="flex items-center space-x-6 pl-6 border-l border-white/10">
+            <SyncIndicator />
             <span className="text-[9px] font-mono text-[#00F3FF] uppercase tracking-widest hidden sm:inline">{user.email.split('@')[0]}</span>
             <button onClick={onLogout} className="text-[9px] font-black uppercase tracking-[0.2em] text-red-500/60 hover:text-red-500 transition-colors">Logout</button>
           </div>
@@ -87,9 +167,9 @@ const AuthPage: React.FC<{ onLogin: (user: User) => void }> = ({ onLogin }) => {
 
     try {
       if (isLogin) {
-        await signInWithEmailAndPassword(auth, email, password);
+        await authService.signIn(email, password);
       } else {
-        await createUserWithEmailAndPassword(auth, email, password);
+        await authService.signUp(email, password);
       }
       navigate('/');
     } catch (err: any) {
@@ -149,6 +229,134 @@ const AuthPage: React.FC<{ onLogin: (user: User) => void }> = ({ onLogin }) => {
   );
 };
 
+const CardEditor: React.FC<{ user: User; card: Flashcard | null; existing: Flashcard[]; onSaved: (card: Flashcard) => void; onClose: () => void }> = ({ user, card, existing, onSaved, onClose }) => {
+  const [fields, setFields] = useState({
+    word: card?.word || '',
+    pronunciation: card?.pronunciation || '',
+    meaning: card?.meaning || '',
+    // New cards take the learner's language; edits keep the language the card was made in
+    meaningLanguage: card?.meaningLanguage || loadProfile(user.id).nativeLanguage,
+    context: card?.context || '',
+    mnemonic: card?.mnemonic || '',
+    difficulty: card?.difficulty || 'C1' as CefrLevel,
+    source: card?.source || 'Manual Entry',
+  });
+  const [regenerating, setRegenerating] = useState<EditableCardField | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [keepFamily, setKeepFamily] = useState<string | null>(null); // Word the learner chose to keep despite a similar card
+
+  const update = (patch: Partial<typeof fields>) => {
+    setFields(prev => ({ ...prev, ...patch }));
+    setError(null);
+  };
+
+  const handleRegenerate = async (field: EditableCardField) => {
+    if (!fields.word.trim()) return;
+    setRegenerating(field);
+    try {
+      const value = await currentProvider().regenerateCardField(fields.word.trim(), field, fields.meaningLanguage, field === 'context' ? '' : fields.context);
+      if (value) update({ [field]: value });
+    } catch (err) {
+      console.error(err);
+      setError(aiErrorMessage(err, "AI generation failed."));
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleSave = async () => {
+    const word = fields.word.trim();
+    if (!word || !fields.meaning.trim()) {
+      setError("Word and meaning are required.");
+      return;
+    }
+    const others = existing.filter(c => c.id !== card?.id);
+    if (others.some(c => c.word.toLowerCase() === word.toLowerCase())) {
+      setError("This word is already in your vault.");
+      return;
+    }
+    // A shared stem is only a hint; saving again keeps the word as its own card
+    const match = others.find(c => (c.normalizedWord ?? normalizeWord(c.word)) === normalizeWord(word));
+    if (match && keepFamily !== word.toLowerCase()) {
+      setError(`Looks like a form of "${match.word}", already in your vault. Save again to keep it.`);
+      setKeepFamily(word.toLowerCase());
+      return;
+    }
+    const content = { ...fields, word, meaning: fields.meaning.trim() };
+    // Edits bump updatedAt for sync but leave every SRS field untouched
+    const saved: Flashcard = card
+      ? { ...card, ...content, normalizedWord: normalizeWord(word), updatedAt: Date.now() }
+      : initializeCard(content, content.source || 'Manual Entry', user.id);
+    try {
+      await repository.saveCard(saved);
+      onSaved(saved);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to save card.");
+    }
+  };
+
+  const aiButton = (field: EditableCardField) => (
+    <button
+      type="button"
+      onClick={() => handleRegenerate(field)}
+      disabled={!fields.word.trim() || regenerating !== null}
+      className="text-[9px] font-black uppercase tracking-widest text-[#39FF14]/60 hover:text-[#39FF14] disabled:opacity-30 transition-colors"
+    >
+      {regenerating === field ? 'Generating...' : 'Regenerate with AI'}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/80 backdrop-blur-md">
+      <div className="bg-[#0a0a0a] border border-white/10 p-10 rounded-[2rem] max-w-lg w-full shadow-2xl space-y-5 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-[#00F3FF] text-[10px] font-black uppercase tracking-[0.3em]">{card ? 'Edit Card' : 'New Card'}</h3>
+        <input value={fields.word} onChange={e => update({ word: e.target.value })} placeholder="WORD OR PHRASE" className="w-full bg-black border border-white/10 p-4 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 transition-all text-xl font-bold" />
+        <div className="space-y-2">
+          <div className="flex justify-between items-center"><span className="text-[9px] font-black uppercase tracking-widest text-white/40">Pronunciation</span>{aiButton('pronunciation')}</div>
+          <input value={fields.pronunciation} onChange={e => update({ pronunciation: e.target.value })} className="w-full bg-black border border-white/10 p-4 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 transition-all font-mono text-sm" />
+        </div>
+        <div className="space-y-2">
+          <div className="flex justify-between items-center"><span className="text-[9px] font-black uppercase tracking-widest text-white/40">Meaning · {languageName(fields.meaningLanguage)}</span>{aiButton('meaning')}</div>
+          <input value={fields.meaning} onChange={e => update({ meaning: e.target.value })} className="w-full bg-black border border-white/10 p-4 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 transition-all" />
+        </div>
+        <div className="space-y-2">
+          <div className="flex justify-between items-center"><span className="text-[9px] font-black uppercase tracking-widest text-white/40">Context</span>{aiButton('context')}</div>
+          <textarea value={fields.context} onChange={e => update({ context: e.target.value })} className="w-full bg-black border border-white/10 p-4 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 transition-all h-24 resize-none text-sm font-light" />
+        </div>
+        <div className="space-y-2">
+          <div className="flex justify-between items-center"><span className="text-[9px] font-black uppercase tracking-widest text-white/40">Mnemonic</span>{aiButton('mnemonic')}</div>
+          <input value={fields.mnemonic} onChange={e => update({ mnemonic: e.target.value })} placeholder="Optional memory hook" className="w-full bg-black border border-white/10 p-4 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 transition-all text-sm font-light" />
+        </div>
+        <div className="grid grid-cols-6 gap-2">
+          {CEFR_LEVELS.map(level => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => update({ difficulty: level })}
+              className={`py-3 border rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${fields.difficulty === level ? 'border-[#00F3FF]/50 text-[#00F3FF] bg-[#00F3FF]/10' : 'border-white/10 text-white/40 hover:bg-white/5'}`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+        <input value={fields.source} onChange={e => update({ source: e.target.value })} placeholder="SOURCE" className="w-full bg-black border border-white/10 p-3 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 text-[10px] font-mono tracking-widest" />
+
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl">
+            <p className="text-red-500 text-[10px] font-bold uppercase tracking-widest text-center">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-4 pt-2">
+          <button onClick={handleSave} className="flex-1 py-4 bg-[#00F3FF]/10 border border-[#00F3FF]/20 text-[#00F3FF] font-black uppercase tracking-[0.2em] text-[10px] rounded-xl hover:bg-[#00F3FF]/20 transition-all">Save</button>
+          <button onClick={onClose} className="flex-1 py-4 bg-white/5 border border-white/10 text-white font-black uppercase tracking-[0.2em] text-[10px] rounded-xl hover:bg-white/10 transition-all">Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // --- Pages ---
 
 const Home: React.FC<{ user: User }> = ({ user }) => {
@@ -160,6 +368,9 @@ const Home: React.FC<{ user: User }> = ({ user }) => {
     return cached ? JSON.parse(cached) : [];
   });
   const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
+  const [providerId, setProviderId] = useState(() => currentProvider().id);
+  // An extraction waiting on the learner to decide about words that look like vault cards
+  const [pendingExtraction, setPendingExtraction] = useState<{ result: ProcessedArticle; article: Article; fresh: Flashcard[]; collisions: FamilyCollision[] } | null>(null);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -178,7 +389,7 @@ const Home: React.FC<{ user: User }> = ({ user }) => {
       if (suggestions.length > 0 && !isExpired) return;
       setIsLoadingSuggestions(true);
       try {
-        const data = await getSuggestedMaterial();
+        const data = await currentProvider().getSuggestedMaterial();
         setSuggestions(data);
         localStorage.setItem(STORAGE_KEYS.SUGGESTIONS, JSON.stringify(data));
         localStorage.setItem(STORAGE_KEYS.SUGGESTIONS_TS, Date.now().toString());
@@ -196,37 +407,64 @@ const Home: React.FC<{ user: User }> = ({ user }) => {
     if (!targetInput.trim()) return;
     setIsProcessing(true);
     try {
-      const result = await processArticle(targetInput, targetInput.startsWith('http') ? targetInput : 'Pasted Text');
-      
-      // Fetch existing cards from Firestore
-      const q = query(collection(firestore, "flashcards"), where("userId", "==", user.id));
-      const querySnapshot = await getDocs(q);
-      const existing: Flashcard[] = [];
-      querySnapshot.forEach((doc) => existing.push(doc.data() as Flashcard));
-      
-      const newCards = result.words.map((w: any) => initializeCard(w, result.title, user.id));
+      const profile = loadProfile(user.id);
+      const result = await currentProvider().processArticle(targetInput, profile, isUrl(targetInput) ? targetInput : 'Pasted Text');
       
-      const batch = writeBatch(firestore);
-      let addedCount = 0;
-
-      newCards.forEach((newCard: Flashcard) => {
-        const exists = existing.find(c => c.word.toLowerCase() === newCard.word.toLowerCase());
-        if (!exists) {
-          const cardRef = doc(firestore, "flashcards", newCard.id);
-          batch.set(cardRef, newCard);
-          addedCount++;
-        }
-      });
+      const newCards: Flashcard[] = result.words.map(w => initializeCard({ ...w, meaningLanguage: profile.nativeLanguage }, result.title, user.id));
 
-      if (addedCount > 0) {
-        await batch.commit();
+      // Look up only the word families being added, plus the library entry for this source
+      const [existing, articles] = await Promise.all([
+        repository.findCardsByWord(user.id, newCards.map(c => c.normalizedWord!)),
+        repository.listArticles(user.id),
+      ]);
+      const article = findArticle(articles, targetInput) || createArticle(targetInput, user.id);
+      const { fresh, collisions } = splitByFamily(newCards, existing);
+      if (collisions.length > 0) {
+        setPendingExtraction({ result, article, fresh, collisions });
+        return;
       }
+      await saveExtraction(result, article, fresh);
+    } catch (err) {
+      console.error(err);
+      alert(aiErrorMessage(err, "Extraction failed."));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-      setInput('');
-      navigate('/bank');
+  const saveExtraction = async (result: ProcessedArticle, article: Article, cards: Flashcard[]) => {
+    const toAdd = cards.map(card => ({ ...card, articleId: article.id }));
+    if (toAdd.length > 0) {
+      await repository.saveCards(toAdd);
+    }
+    await repository.saveArticle({
+      ...article,
+      title: result.title || article.title,
+      author: result.author || article.author,
+      summary: result.summary || article.summary,
+      cardIds: [...article.cardIds, ...toAdd.map(c => c.id)],
+      processedAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    // Words that failed validation were dropped; say which, so a hallucinated example isn't a silent gap
+    if (result.rejected?.length) {
+      alert(`Skipped ${result.rejected.length} word(s) the AI got wrong:\n${result.rejected.map(r => `• ${r.word}: ${r.reason}`).join('\n')}`);
+    }
+    setInput('');
+    navigate('/bank');
+  };
+
+  const handleKeepCollisions = async (kept: Flashcard[]) => {
+    if (!pendingExtraction) return;
+    const { result, article, fresh } = pendingExtraction;
+    setPendingExtraction(null);
+    setIsProcessing(true);
+    try {
+      await saveExtraction(result, article, [...fresh, ...kept]);
     } catch (err) {
       console.error(err);
-      alert("Extraction failed.");
+      alert("Failed to save the extracted words.");
     } finally {
       setIsProcessing(false);
     }
@@ -237,16 +475,41 @@ const Home: React.FC<{ user: User }> = ({ user }) => {
     if (!target.trim()) return;
     setIsProcessing(true);
     try {
-      const text = await summarizeArticle(target);
+      const text = await currentProvider().summarizeArticle(target);
       setSummary(text);
+      const articles = await repository.listArticles(user.id);
+      const article = findArticle(articles, target) || createArticle(target, user.id);
+      await repository.saveArticle({ ...article, insights: text || '', summarizedAt: Date.now(), updatedAt: Date.now() });
     } catch (err) {
       console.error(err);
-      alert("Summarization failed.");
+      alert(aiErrorMessage(err, "Summarization failed."));
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleRead = async () => {
+    if (!input.trim()) return;
+    try {
+      const articles = await repository.listArticles(user.id);
+      let article = findArticle(articles, input);
+      if (!article) {
+        article = createArticle(input, user.id);
+        await repository.saveArticle(article);
+      }
+      setInput('');
+      navigate(`/read/${article.id}`);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to open the reader.");
+    }
+  };
+
+  const handleProviderChange = (id: string) => {
+    setProviderId(selectProvider(id));
+    localStorage.setItem(STORAGE_KEYS.AI_PROVIDER(user.id), id);
+  };
+
   const handleDismiss = async (idx: number) => {
     // Remove from the full pool
     const newPool = [...suggestions];
@@ -260,7 +523,7 @@ const Home: React.FC<{ user: User }> = ({ user }) => {
     if (newPool.length < 2) {
       setIsLoadingSuggestions(true);
       try {
-        const data = await getSuggestedMaterial();
+        const data = await currentProvider().getSuggestedMaterial();
         // Filter out any we already have
         const filtered = data.filter((item: any) => !newPool.find(s => s.url === item.url));
         const merged = [...newPool, ...filtered];
@@ -278,6 +541,7 @@ const Home: React.FC<{ user: User }> = ({ user }) => {
   return (
     <div className="min-h-screen pt-36 px-6 max-w-3xl mx-auto flex flex-col items-center pb-32">
       {isProcessing && <LoadingOverlay message="Running AI Analysis..." />}
+      {pendingExtraction && <FamilyCollisionDialog collisions={pendingExtraction.collisions} onDone={handleKeepCollisions} />}
       
       {summary && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/80 backdrop-blur-md">
@@ -316,8 +580,17 @@ const Home: React.FC<{ user: User }> = ({ user }) => {
         </div>
         <div className="flex flex-col md:flex-row gap-4">
           <button onClick={() => handleProcess()} disabled={!input.trim()} className="flex-1 py-5 bg-white text-black font-black uppercase tracking-[0.3em] rounded-2xl hover:bg-[#00F3FF] transition-all disabled:opacity-30 text-xs shadow-[0_20px_40px_rgba(255,255,255,0.05)]">Generate Flashcards</button>
-          <button onClick={() => handleSummarize()} disabled={!input.trim()} className="md:w-1/3 py-5 bg-black border border-white/10 text-[#39FF14] font-black uppercase tracking-[0.3em] rounded-2xl hover:bg-[#39FF14]/10 transition-all disabled:opacity-30 text-xs">Summarize</button>
+          <button onClick={handleRead} disabled={!input.trim()} className="md:w-1/4 py-5 bg-black border border-white/10 text-[#00F3FF] font-black uppercase tracking-[0.3em] rounded-2xl hover:bg-[#00F3FF]/10 transition-all disabled:opacity-30 text-xs">Read</button>
+          <button onClick={() => handleSummarize()} disabled={!input.trim()} className="md:w-1/4 py-5 bg-black border border-white/10 text-[#39FF14] font-black uppercase tracking-[0.3em] rounded-2xl hover:bg-[#39FF14]/10 transition-all disabled:opacity-30 text-xs">Summarize</button>
         </div>
+        {availableProviders.length > 1 && (
+          <div className="flex justify-end items-center gap-3 text-[9px] font-black uppercase tracking-[0.2em] text-white/30">
+            <span>AI Model</span>
+            <select value={providerId} onChange={(e) => handleProviderChange(e.target.value)} className="bg-[#0a0a0a] border border-white/10 rounded-lg px-3 py-2 text-[#00F3FF] focus:outline-none focus:border-[#00F3FF]/50">
+              {availableProviders.map(id => <option key={id} value={id}>{AI_PROVIDER_LABELS[id]}</option>)}
+            </select>
+          </div>
+        )}
       </div>
 
       <div className="w-full space-y-10">
@@ -363,18 +636,62 @@ const Home: React.FC<{ user: User }> = ({ user }) => {
   );
 };
 
+const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const dataStr = `data:${mimeType};charset=utf-8,` + encodeURIComponent(content);
+  const dlAnchor = document.createElement('a');
+  dlAnchor.setAttribute("href", dataStr);
+  dlAnchor.setAttribute("download", filename);
+  dlAnchor.click();
+};
+
+// Cards per write during a restore, kept under Firestore's 500-write batch limit
+const RESTORE_CHUNK = 400;
+
+const PronunciationBadge: React.FC<{ card: Flashcard }> = ({ card }) => {
+  const trend = pronunciationTrend(card);
+  if (!trend) return null;
+  return (
+    <p className="text-[9px] font-black uppercase tracking-widest text-white/40 mb-3">
+      Pronunciation {trend.latest.score}
+      {!!trend.change && <span className={trend.change > 0 ? 'text-[#39FF14]' : 'text-red-500'}> {trend.change > 0 ? '↑' : '↓'}{Math.abs(trend.change)}</span>}
+      <span className="text-white/20"> · {trend.count} tries</span>
+    </p>
+  );
+};
+
 const Bank: React.FC<{ user: User }> = ({ user }) => {
   const [cards, setCards] = useState<Flashcard[]>([]);
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  // null: closed, 'new': blank form, otherwise the card being edited
+  const [editing, setEditing] = useState<Flashcard | 'new' | null>(null);
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null);
+  const [restoreProgress, setRestoreProgress] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const tableInputRef = useRef<HTMLInputElement>(null);
+  const [tableImport, setTableImport] = useState<{ table: ParsedTable; mapping: ImportField[]; source: string } | null>(null);
+  // Rows held back until the learner decides about words that look like vault cards
+  const [pendingImport, setPendingImport] = useState<{ fresh: Flashcard[]; skipped: number; rejected: number; collisions: FamilyCollision[] } | null>(null);
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [duplicateGroups, setDuplicateGroups] = useState<Flashcard[][] | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseFilters(searchParams);
+  const sources = useMemo(() => Array.from(new Set(cards.map(c => c.source))).sort(), [cards]);
+  const filtered = useMemo(() => applyFilters(cards, filters), [cards, searchParams]);
+  const filterArticle = filters.article ? articles.find(a => a.id === filters.article) : undefined;
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const page = Math.min(filters.page, pageCount);
+  const pageCards = filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  // Any filter change starts again from the first page; typing replaces history instead of stacking entries
+  const updateFilters = (patch: Partial<VaultFilters>, replace: boolean = false) => {
+    setSearchParams(toSearchParams({ ...filters, page: 1, ...patch }), { replace });
+  };
 
   useEffect(() => {
     const fetchCards = async () => {
       try {
-        const q = query(collection(firestore, "flashcards"), where("userId", "==", user.id));
-        const querySnapshot = await getDocs(q);
-        const data: Flashcard[] = [];
-        querySnapshot.forEach((doc) => data.push(doc.data() as Flashcard));
-        setCards(data);
+        setCards(await repository.listCards(user.id));
+        setArticles(await repository.listArticles(user.id));
       } catch (err) {
         console.error(err);
       }
@@ -382,17 +699,142 @@ const Bank: React.FC<{ user: User }> = ({ user }) => {
     fetchCards();
   }, [user.id]);
 
-  const handleExport = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(cards, null, 2));
-    const dlAnchor = document.createElement('a');
-    dlAnchor.setAttribute("href", dataStr);
-    dlAnchor.setAttribute("download", `lingoflow_vault_${user.id}.json`);
-    dlAnchor.click();
+  const handleExport = async () => {
+    let reviewLogs: ReviewLog[] = [];
+    try {
+      reviewLogs = await repository.listReviewLogs(user.id);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to load review history; exporting cards only.");
+    }
+    const backup = { exportedAt: Date.now(), cards, reviewLogs };
+    downloadFile(`lingoflow_vault_${user.id}.json`, JSON.stringify(backup, null, 2), "text/json");
+  };
+
+  const handleTableFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const table = parseDelimited(await file.text());
+    if (table.rows.length === 0) {
+      alert("No rows found in this file.");
+      return;
+    }
+    const hasHeader = !table.headers && looksLikeHeader(table.rows[0]);
+    const headers = table.headers || (hasHeader ? table.rows[0] : null);
+    const columnCount = Math.max(...table.rows.map(r => r.length));
+    setTableImport({
+      table: hasHeader ? { ...table, headers, rows: table.rows.slice(1) } : { ...table, headers },
+      mapping: guessMapping(headers, columnCount),
+      source: file.name.replace(/\.[^.]+$/, ''),
+    });
+  };
+
+  const handleTableImport = async () => {
+    if (!tableImport) return;
+    const { cards: parsed, rejected } = rowsToCards(tableImport.table.rows, tableImport.mapping, user.id, tableImport.source, loadProfile(user.id).nativeLanguage);
+    const { fresh, duplicates, collisions } = splitByFamily(parsed, cards);
+    setTableImport(null);
+    if (collisions.length > 0) {
+      setPendingImport({ fresh, skipped: duplicates.length, rejected, collisions });
+      return;
+    }
+    await importCards(fresh, duplicates.length, rejected);
+  };
+
+  const importCards = async (fresh: Flashcard[], skipped: number, rejected: number) => {
+    try {
+      for (let i = 0; i < fresh.length; i += RESTORE_CHUNK) {
+        setRestoreProgress(`Importing ${Math.min(i + RESTORE_CHUNK, fresh.length)} / ${fresh.length}...`);
+        await repository.saveCards(fresh.slice(i, i + RESTORE_CHUNK));
+      }
+      setCards(prev => [...prev, ...fresh]);
+      alert(`Imported ${fresh.length} cards. ${skipped} already in the vault, ${rejected} rows missing a word or meaning.`);
+    } catch (err) {
+      console.error(err);
+      alert("Import failed part-way. Re-running it is safe; imported words will be skipped.");
+    } finally {
+      setRestoreProgress(null);
+    }
+  };
+
+  const handleKeepCollisions = async (kept: Flashcard[]) => {
+    if (!pendingImport) return;
+    const { fresh, skipped, rejected, collisions } = pendingImport;
+    setPendingImport(null);
+    await importCards([...fresh, ...kept], skipped + collisions.length - kept.length, rejected);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { backup, invalid } = parseBackup(await file.text());
+      const existingLogs = await repository.listReviewLogs(user.id);
+      setRestorePlan(planRestore(cards, backup, existingLogs, user.id, invalid));
+    } catch (err: any) {
+      console.error(err);
+      alert(err.message || "Failed to read backup.");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restorePlan) return;
+    const writes = [...restorePlan.toAdd, ...restorePlan.toUpdate];
+    try {
+      for (let i = 0; i < writes.length; i += RESTORE_CHUNK) {
+        setRestoreProgress(`Restoring ${Math.min(i + RESTORE_CHUNK, writes.length)} / ${writes.length}...`);
+        await repository.saveCards(writes.slice(i, i + RESTORE_CHUNK));
+      }
+      for (let i = 0; i < restorePlan.reviewLogs.length; i += RESTORE_CHUNK) {
+        setRestoreProgress("Restoring Review History...");
+        await repository.saveReviewLogs(restorePlan.reviewLogs.slice(i, i + RESTORE_CHUNK));
+      }
+      const written = new Map(writes.map(c => [c.id, c]));
+      setCards(prev => [...prev.map(c => written.get(c.id) || c), ...restorePlan.toAdd]);
+      setRestorePlan(null);
+    } catch (err) {
+      console.error(err);
+      alert("Restore failed part-way. Re-running it is safe; already restored cards will be skipped.");
+    } finally {
+      setRestoreProgress(null);
+    }
+  };
+
+  const handleMerge = async (groups: Flashcard[][]) => {
+    try {
+      const logs = await repository.listReviewLogs(user.id);
+      let linked = await repository.listArticles(user.id);
+      for (let i = 0; i < groups.length; i++) {
+        setRestoreProgress(`Merging ${i + 1} / ${groups.length}...`);
+        const { merged, removed } = mergeDuplicates(groups[i]);
+        const removedIds = new Set(removed.map(c => c.id));
+        // History and article links move to the merged card before the duplicates go
+        await repository.saveCard(merged);
+        const moved = repointReviewLogs(logs, removed, merged.id);
+        if (moved.length > 0) await repository.saveReviewLogs(moved);
+        const relinked = linked.map(a => replaceCardIds(a, removedIds, merged.id)).filter((a): a is Article => a !== null);
+        for (const article of relinked) await repository.saveArticle(article);
+        linked = linked.map(a => relinked.find(r => r.id === a.id) || a);
+        for (const card of removed) await repository.deleteCard(card.id);
+        setCards(prev => prev.filter(c => !removedIds.has(c.id)).map(c => c.id === merged.id ? merged : c));
+        setArticles(linked);
+      }
+      const remaining = duplicateGroups?.filter(g => !groups.includes(g)) ?? [];
+      setDuplicateGroups(remaining.length > 0 ? remaining : null);
+    } catch (err) {
+      console.error(err);
+      alert("Merge failed part-way. Merged groups are saved; the rest are still listed.");
+      setDuplicateGroups(null);
+    } finally {
+      setRestoreProgress(null);
+    }
   };
 
   const handleDelete = async (cardId: string) => {
     try {
-      await deleteDoc(doc(firestore, "flashcards", cardId));
+      await repository.deleteCard(cardId);
       setCards(prev => prev.filter(c => c.id !== cardId));
       setConfirmDeleteId(null);
     } catch (err) {
@@ -401,17 +843,212 @@ const Bank: React.FC<{ user: User }> = ({ user }) => {
     }
   };
 
+  const handleToggleSuspend = async (card: Flashcard) => {
+    const updated = setSuspended(card, !card.suspended);
+    try {
+      await repository.saveCard(updated);
+      setCards(prev => prev.map(c => c.id === updated.id ? updated : c));
+    } catch (err) {
+      console.error(err);
+      alert("Failed to update card.");
+    }
+  };
+
   return (
     <div className="min-h-screen pt-36 px-8 max-w-5xl mx-auto pb-32">
+      {restoreProgress && <LoadingOverlay message={restoreProgress} />}
+
+      {editing && (
+        <CardEditor
+          user={user}
+          card={editing === 'new' ? null : editing}
+          existing={cards}
+          onSaved={(saved) => {
+            setCards(prev => prev.some(c => c.id === saved.id) ? prev.map(c => c.id === saved.id ? saved : c) : [...prev, saved]);
+            setEditing(null);
+          }}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {restorePlan && !restoreProgress && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/80 backdrop-blur-md">
+          <div className="bg-[#0a0a0a] border border-white/10 p-10 rounded-[2rem] max-w-md w-full shadow-2xl space-y-8">
+            <h3 className="text-[#39FF14] text-[10px] font-black uppercase tracking-[0.3em]">Restore Preview</h3>
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { label: 'New', value: restorePlan.toAdd.length, color: 'text-[#39FF14]' },
+                { label: 'Updated', value: restorePlan.toUpdate.length, color: 'text-[#00F3FF]' },
+                { label: 'Skipped', value: restorePlan.skipped.length, color: 'text-white/60' },
+                { label: 'Invalid', value: restorePlan.invalid, color: 'text-red-500' },
+              ].map(stat => (
+                <div key={stat.label} className="bg-white/5 border border-white/5 p-6 rounded-2xl space-y-1">
+                  <p className={`text-3xl font-black tracking-tighter ${stat.color}`}>{stat.value}</p>
+                  <p className="text-[9px] font-black uppercase tracking-widest text-white/40">{stat.label}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-white/40 text-xs font-light">Existing words are only replaced when the backup copy is newer. {restorePlan.reviewLogs.length} review log entries will be restored.</p>
+            <div className="flex gap-4">
+              <button onClick={handleRestore} disabled={restorePlan.toAdd.length + restorePlan.toUpdate.length + restorePlan.reviewLogs.length === 0} className="flex-1 py-4 bg-[#39FF14]/10 border border-[#39FF14]/20 text-[#39FF14] font-black uppercase tracking-[0.2em] text-[10px] rounded-xl hover:bg-[#39FF14]/20 transition-all disabled:opacity-30">Restore</button>
+              <button onClick={() => setRestorePlan(null)} className="flex-1 py-4 bg-white/5 border border-white/10 text-white font-black uppercase tracking-[0.2em] text-[10px] rounded-xl hover:bg-white/10 transition-all">Cancel</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {pendingImport && <FamilyCollisionDialog collisions={pendingImport.collisions} onDone={handleKeepCollisions} />}
+
+      {duplicateGroups && !restoreProgress && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/80 backdrop-blur-md">
+          <div className="bg-[#0a0a0a] border border-white/10 p-10 rounded-[2rem] max-w-2xl w-full shadow-2xl space-y-8 flex flex-col max-h-[90vh]">
+            <div>
+              <h3 className="text-[#00F3FF] text-[10px] font-black uppercase tracking-[0.3em]">Duplicates</h3>
+              <p className="text-white/40 text-xs font-light mt-2">
+                {duplicateGroups.length === 0
+                  ? 'No two cards share a word family.'
+                  : `${duplicateGroups.length} word families appear more than once. Merging keeps the card with the most review history and combines every context into it.`}
+              </p>
+            </div>
+            <div className="flex-grow overflow-y-auto space-y-3 pr-2">
+              {duplicateGroups.map((group) => {
+                const primary = pickPrimary(group);
+                return (
+                  <div key={group.map(c => c.id).join()} className="flex items-center gap-4 bg-white/5 border border-white/5 p-4 rounded-2xl">
+                    <div className="flex-grow flex flex-wrap gap-2 min-w-0">
+                      {group.map(card => (
+                        <span key={card.id} className={`text-xs px-3 py-1 rounded-lg border ${card === primary ? 'border-[#39FF14]/30 text-[#39FF14]' : 'border-white/10 text-white/50'}`}>
+                          {card.word} <span className="font-mono opacity-60">· {card.reps} reps · {card.source}</span>
+                        </span>
+                      ))}
+                    </div>
+                    <button onClick={() => handleMerge([group])} className="shrink-0 px-4 py-2 bg-[#39FF14]/10 border border-[#39FF14]/20 text-[#39FF14] font-black uppercase tracking-[0.2em] text-[9px] rounded-lg hover:bg-[#39FF14]/20 transition-all">Merge</button>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-4">
+              <button onClick={() => handleMerge(duplicateGroups)} disabled={duplicateGroups.length === 0} className="flex-1 py-4 bg-[#39FF14]/10 border border-[#39FF14]/20 text-[#39FF14] font-black uppercase tracking-[0.2em] text-[10px] rounded-xl hover:bg-[#39FF14]/20 transition-all disabled:opacity-30">Merge All</button>
+              <button onClick={() => setDuplicateGroups(null)} className="flex-1 py-4 bg-white/5 border border-white/10 text-white font-black uppercase tracking-[0.2em] text-[10px] rounded-xl hover:bg-white/10 transition-all">Close</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {tableImport && !restoreProgress && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-black/80 backdrop-blur-md">
+          <div className="bg-[#0a0a0a] border border-white/10 p-10 rounded-[2rem] max-w-2xl w-full shadow-2xl space-y-8 flex flex-col max-h-[90vh]">
+            <div>
+              <h3 className="text-[#00F3FF] text-[10px] font-black uppercase tracking-[0.3em]">Map Columns</h3>
+              <p className="text-white/40 text-xs font-light mt-2">{tableImport.table.rows.length} rows. Cards need at least a word and a meaning; interval and due columns keep existing scheduling.</p>
+            </div>
+            <div className="flex-grow overflow-y-auto space-y-3 pr-2">
+              {tableImport.mapping.map((field, col) => (
+                <div key={col} className="flex items-center gap-4 bg-white/5 border border-white/5 p-4 rounded-2xl">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[9px] font-black uppercase tracking-widest text-white/40">{tableImport.table.headers?.[col] || `Column ${col + 1}`}</p>
+                    <p className="text-white/80 text-sm truncate">{tableImport.table.rows[0]?.[col] || '—'}</p>
+                  </div>
+                  <select
+                    value={field}
+                    onChange={e => {
+                      const mapping = [...tableImport.mapping];
+                      mapping[col] = e.target.value as ImportField;
+                      setTableImport({ ...tableImport, mapping });
+                    }}
+                    className="bg-black border border-white/10 rounded-xl p-3 text-[10px] font-black uppercase tracking-widest text-white focus:outline-none focus:border-[#00F3FF]/50"
+                  >
+                    {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(option => (
+                      <option key={option} value={option}>{IMPORT_FIELD_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <input
+              value={tableImport.source}
+              onChange={e => setTableImport({ ...tableImport, source: e.target.value })}
+              placeholder="SOURCE FOR ROWS WITHOUT ONE"
+              className="w-full bg-black border border-white/10 p-4 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 text-[10px] font-mono tracking-widest"
+            />
+            <div className="flex gap-4">
+              <button onClick={handleTableImport} disabled={!tableImport.mapping.includes('word') || !tableImport.mapping.includes('meaning')} className="flex-1 py-4 bg-[#00F3FF]/10 border border-[#00F3FF]/20 text-[#00F3FF] font-black uppercase tracking-[0.2em] text-[10px] rounded-xl hover:bg-[#00F3FF]/20 transition-all disabled:opacity-30">Import</button>
+              <button onClick={() => setTableImport(null)} className="flex-1 py-4 bg-white/5 border border-white/10 text-white font-black uppercase tracking-[0.2em] text-[10px] rounded-xl hover:bg-white/10 transition-all">Cancel</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="flex flex-col md:flex-row md:items-end justify-between mb-16 gap-6">
         <div>
           <h2 className="text-5xl font-black tracking-tighter uppercase">Vault</h2>
-          <p className="text-[#00F3FF] text-xs font-mono mt-3 uppercase tracking-[0.2em] font-bold">{cards.length} Terms in Secure Storage</p>
+          <p className="text-[#00F3FF] text-xs font-mono mt-3 uppercase tracking-[0.2em] font-bold">{cards.length} Terms in Secure Storage{filtered.length !== cards.length && ` · ${filtered.length} Shown`}</p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <input ref={tableInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" onChange={handleTableFile} className="hidden" />
+          <button onClick={() => tableInputRef.current?.click()} className="text-[10px] font-black uppercase tracking-[0.2em] text-white/60 border border-white/10 px-4 py-2 rounded-lg">Import CSV / Anki</button>
+          <button onClick={() => downloadFile(`lingoflow_anki_${user.id}.txt`, toAnkiNotes(cards), "text/tab-separated-values")} className="text-[10px] font-black uppercase tracking-[0.2em] text-white/60 border border-white/10 px-4 py-2 rounded-lg">Export Anki</button>
+          <button onClick={() => downloadFile(`lingoflow_vault_${user.id}.csv`, toCsv(cards), "text/csv")} className="text-[10px] font-black uppercase tracking-[0.2em] text-white/60 border border-white/10 px-4 py-2 rounded-lg">Export CSV</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+          <button onClick={() => setDuplicateGroups(findDuplicateGroups(cards))} className="text-[10px] font-black uppercase tracking-[0.2em] text-white/60 border border-white/10 px-4 py-2 rounded-lg">Duplicates</button>
+          <Link to="/leeches" className="text-[10px] font-black uppercase tracking-[0.2em] text-red-400/80 border border-red-500/20 px-4 py-2 rounded-lg">Leeches</Link>
+          <button onClick={() => setEditing('new')} className="text-[10px] font-black uppercase tracking-[0.2em] text-black bg-white px-4 py-2 rounded-lg hover:bg-[#00F3FF] transition-all">New Card</button>
+          <button onClick={() => fileInputRef.current?.click()} className="text-[10px] font-black uppercase tracking-[0.2em] text-[#00F3FF] border border-[#00F3FF]/20 px-4 py-2 rounded-lg">Restore Vault</button>
+          <button onClick={handleExport} className="text-[10px] font-black uppercase tracking-[0.2em] text-[#39FF14] border border-[#39FF14]/20 px-4 py-2 rounded-lg">Backup Vault</button>
+        </div>
+      </div>
+      <div className="space-y-4 mb-10">
+        <input
+          value={filters.q}
+          onChange={e => updateFilters({ q: e.target.value }, true)}
+          placeholder="Search words, meanings and context..."
+          className="w-full bg-[#0a0a0a] border border-white/10 rounded-2xl p-5 text-white focus:outline-none focus:border-[#00F3FF]/50 transition-all font-light"
+        />
+        <div className="flex flex-wrap gap-3">
+          <select value={filters.difficulty} onChange={e => updateFilters({ difficulty: e.target.value as VaultFilters['difficulty'] })} className="bg-[#0a0a0a] border border-white/10 rounded-xl p-3 text-[10px] font-black uppercase tracking-widest text-white/60 focus:outline-none focus:border-[#00F3FF]/50">
+            <option value="">All Levels</option>
+            {CEFR_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+          <select value={filters.source} onChange={e => updateFilters({ source: e.target.value })} className="bg-[#0a0a0a] border border-white/10 rounded-xl p-3 text-[10px] font-black uppercase tracking-widest text-white/60 focus:outline-none focus:border-[#00F3FF]/50 max-w-[16rem]">
+            <option value="">All Sources</option>
+            {sources.map(src => <option key={src} value={src}>{src}</option>)}
+          </select>
+          <select value={String(filters.state)} onChange={e => updateFilters({ state: e.target.value === '' ? '' : Number(e.target.value) as CardState })} className="bg-[#0a0a0a] border border-white/10 rounded-xl p-3 text-[10px] font-black uppercase tracking-widest text-white/60 focus:outline-none focus:border-[#00F3FF]/50">
+            <option value="">All States</option>
+            {[CardState.NEW, CardState.LEARNING, CardState.REVIEW, CardState.RELEARNING].map(state => (
+              <option key={state} value={state}>{CARD_STATE_LABELS[state]}</option>
+            ))}
+          </select>
+          <select value={filters.status} onChange={e => updateFilters({ status: e.target.value as StatusFilter })} className="bg-[#0a0a0a] border border-white/10 rounded-xl p-3 text-[10px] font-black uppercase tracking-widest text-white/60 focus:outline-none focus:border-[#00F3FF]/50">
+            <option value="">Any Status</option>
+            <option value="suspended">Suspended</option>
+            <option value="buried">Buried</option>
+            <option value="leech">Leeches</option>
+          </select>
+          <select value={filters.due} onChange={e => updateFilters({ due: e.target.value as DueFilter })} className="bg-[#0a0a0a] border border-white/10 rounded-xl p-3 text-[10px] font-black uppercase tracking-widest text-white/60 focus:outline-none focus:border-[#00F3FF]/50">
+            <option value="all">Any Due Date</option>
+            <option value="now">Due Now</option>
+            <option value="today">Due Today</option>
+            <option value="week">Due This Week</option>
+          </select>
+          <select value={filters.sort} onChange={e => updateFilters({ sort: e.target.value as SortKey })} className="bg-[#0a0a0a] border border-white/10 rounded-xl p-3 text-[10px] font-black uppercase tracking-widest text-white/60 focus:outline-none focus:border-[#00F3FF]/50">
+            <option value="created">Sort: Created</option>
+            <option value="due">Sort: Due Date</option>
+            <option value="reps">Sort: Reviews</option>
+            <option value="alpha">Sort: A–Z</option>
+          </select>
+          <button onClick={() => updateFilters({ dir: filters.dir === 'asc' ? 'desc' : 'asc' })} className="bg-[#0a0a0a] border border-white/10 rounded-xl p-3 text-[10px] font-black uppercase tracking-widest text-white/60 focus:outline-none focus:border-[#00F3FF]/50">
+            {filters.dir === 'asc' ? '↑ Asc' : '↓ Desc'}
+          </button>
+          {filters.article && (
+            <button onClick={() => updateFilters({ article: '' })} className="bg-[#39FF14]/10 border border-[#39FF14]/20 rounded-xl p-3 text-[10px] font-black uppercase tracking-widest text-[#39FF14] max-w-[20rem] truncate">
+              Article: {filterArticle?.title || 'Deleted'} ✕
+            </button>
+          )}
         </div>
-        <button onClick={handleExport} className="text-[10px] font-black uppercase tracking-[0.2em] text-[#39FF14] border border-[#39FF14]/20 px-4 py-2 rounded-lg">Backup Vault</button>
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {cards.map((card) => (
+        {pageCards.map((card) => (
           <div key={card.id} className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl hover:border-[#00F3FF]/30 transition-all duration-500 relative group overflow-hidden">
             {confirmDeleteId === card.id ? (
               <div className="absolute inset-0 bg-red-600/90 backdrop-blur-sm z-40 flex flex-col items-center justify-center p-6 text-center animate-in fade-in slide-in-from-bottom-4 duration-300">
@@ -444,39 +1081,58 @@ const Bank: React.FC<{ user: User }> = ({ user }) => {
             )}
             <div className="flex justify-between items-start mb-6">
               <div className="space-y-1">
-                <span className="text-[9px] font-black bg-white/10 text-white/60 px-2 py-0.5 rounded tracking-widest uppercase">{card.difficulty}</span>
+                <div className="flex gap-2">
+                  <span className="text-[9px] font-black bg-white/10 text-white/60 px-2 py-0.5 rounded tracking-widest uppercase">{card.difficulty}</span>
+                  {card.suspended && <span className="text-[9px] font-black bg-yellow-500/10 text-yellow-400 px-2 py-0.5 rounded tracking-widest uppercase">Suspended</span>}
+                  {isBuried(card) && <span className="text-[9px] font-black bg-white/5 text-white/40 px-2 py-0.5 rounded tracking-widest uppercase">Buried</span>}
+                  {card.leech && <span className="text-[9px] font-black bg-red-500/10 text-red-400 px-2 py-0.5 rounded tracking-widest uppercase">Leech</span>}
+                </div>
                 <h4 className="text-2xl font-bold text-white group-hover:text-[#00F3FF] transition-colors">{card.word}</h4>
                 <p className="text-white/30 text-xs font-mono">{card.pronunciation}</p>
               </div>
-              <button onClick={() => playPronunciation(card.word)} className="p-3 bg-white/5 hover:bg-[#00F3FF]/20 rounded-full text-[#00F3FF] transition-all"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg></button>
+              <div className="flex gap-2">
+                <button onClick={() => handleToggleSuspend(card)} className="p-3 bg-white/5 hover:bg-white/10 rounded-full text-white/40 hover:text-white transition-all" aria-label={card.suspended ? 'Unsuspend card' : 'Suspend card'} title={card.suspended ? 'Unsuspend' : 'Suspend'}>
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    {card.suspended
+                      ? <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 3l14 9-14 9V3z" />
+                      : <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M10 9v6m4-6v6" />}
+                  </svg>
+                </button>
+                <button onClick={() => setEditing(card)} className="p-3 bg-white/5 hover:bg-white/10 rounded-full text-white/40 hover:text-white transition-all" aria-label="Edit card"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg></button>
+                <button onClick={() => speak(card.word)} className="p-3 bg-white/5 hover:bg-[#00F3FF]/20 rounded-full text-[#00F3FF] transition-all"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg></button>
+              </div>
             </div>
-            <p className="text-white/80 font-semibold mb-4 text-lg border-l-2 border-[#00F3FF] pl-4">{card.vietnameseMeaning}</p>
-            <p className="text-white/30 text-sm italic font-light">"{card.context}"</p>
+            <p className="text-white/80 font-semibold mb-4 text-lg border-l-2 border-[#00F3FF] pl-4">{card.meaning}</p>
+            <PronunciationBadge card={card} />
+            <p className="text-white/30 text-sm italic font-light whitespace-pre-line">"{card.context}"</p>
+            {card.mnemonic && <p className="text-white/50 text-sm font-light mt-3">{card.mnemonic}</p>}
           </div>
         ))}
       </div>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-6 mt-12 text-[10px] font-black uppercase tracking-[0.2em]">
+          <button onClick={() => setSearchParams(toSearchParams({ ...filters, page: page - 1 }))} disabled={page <= 1} className="px-4 py-2 border border-white/10 rounded-lg text-white/60 hover:bg-white/5 disabled:opacity-30">Prev</button>
+          <span className="text-white/40 font-mono">{page} / {pageCount}</span>
+          <button onClick={() => setSearchParams(toSearchParams({ ...filters, page: page + 1 }))} disabled={page >= pageCount} className="px-4 py-2 border border-white/10 rounded-lg text-white/60 hover:bg-white/5 disabled:opacity-30">Next</button>
+        </div>
+      )}
     </div>
   );
 };
 
-const Study: React.FC<{ user: User }> = ({ user }) => {
-  const [allCards, setAllCards] = useState<Flashcard[]>([]);
-  const [dueCards, setDueCards] = useState<Flashcard[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isFlipped, setIsFlipped] = useState(false);
-  const [isStarted, setIsStarted] = useState(false);
-  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+// Cards flagged by the leech rule, with AI rewrites of the context or a mnemonic to make them stick
+const Leeches: React.FC<{ user: User }> = ({ user }) => {
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  // Rewrites waiting for the learner to keep or discard, by card id
+  const [proposals, setProposals] = useState<Record<string, { field: 'context' | 'mnemonic'; value: string }>>({});
+  const [generating, setGenerating] = useState<string | null>(null);
+  const threshold = parseLeechSettings(localStorage.getItem(STORAGE_KEYS.LEECH(user.id))).threshold;
+  const leeches = useMemo(() => cards.filter(c => c.leech).sort((a, b) => totalLapses(b) - totalLapses(a)), [cards]);
 
   useEffect(() => {
     const fetchCards = async () => {
       try {
-        const q = query(collection(firestore, "flashcards"), where("userId", "==", user.id));
-        const querySnapshot = await getDocs(q);
-        const all: Flashcard[] = [];
-        querySnapshot.forEach((doc) => all.push(doc.data() as Flashcard));
-        
-        setAllCards(all);
-        setDueCards(all.filter((c: Flashcard) => c.due <= Date.now()).sort(() => Math.random() - 0.5));
+        setCards(await repository.listCards(user.id));
       } catch (err) {
         console.error(err);
       }
@@ -484,61 +1140,882 @@ const Study: React.FC<{ user: User }> = ({ user }) => {
     fetchCards();
   }, [user.id]);
 
-  const handleDeleteCard = async (cardId: string) => {
+  const save = async (updated: Flashcard) => {
     try {
-      await deleteDoc(doc(firestore, "flashcards", cardId));
-      setAllCards(prev => prev.filter(c => c.id !== cardId));
-      setDueCards(prev => prev.filter(c => c.id !== cardId));
-      setIsFlipped(false);
-      setIsConfirmingDelete(false);
+      await repository.saveCard(updated);
+      setCards(prev => prev.map(c => c.id === updated.id ? updated : c));
+      return true;
     } catch (err) {
       console.error(err);
-      alert("Failed to delete card.");
+      alert("Failed to update card.");
+      return false;
     }
   };
 
-  const handleRate = async (rating: Difficulty) => {
-    const card = dueCards[currentIndex];
-    const updated = scheduleReview(card, rating);
-    
+  const discard = (cardId: string) => setProposals(({ [cardId]: _, ...rest }) => rest);
+
+  const handleRegenerate = async (card: Flashcard, field: 'context' | 'mnemonic') => {
+    setGenerating(card.id);
     try {
-      // Sync updated card to Firestore
-      await setDoc(doc(firestore, "flashcards", updated.id), updated);
-      
-      // Update local state
-      setAllCards(prev => prev.map(c => c.id === card.id ? updated : c));
-      
-      setIsFlipped(false);
-      setTimeout(() => setCurrentIndex(prev => prev + 1), 300);
+      // A new context is written from scratch; a mnemonic builds on the sentence the card already has
+      const value = await currentProvider().regenerateCardField(card.word, field, card.meaningLanguage, field === 'context' ? '' : card.context);
+      if (value) setProposals(prev => ({ ...prev, [card.id]: { field, value } }));
     } catch (err) {
       console.error(err);
-      alert("Failed to sync progress.");
+      alert(aiErrorMessage(err, "AI generation failed."));
+    } finally {
+      setGenerating(null);
     }
   };
 
-  const getDueTodayCount = () => {
-    const endOfDay = new Date();
-    endOfDay.setHours(23, 59, 59, 999);
-    return allCards.filter(c => c.due <= endOfDay.getTime()).length;
+  const handleKeep = async (card: Flashcard) => {
+    const proposal = proposals[card.id];
+    if (await save({ ...card, [proposal.field]: proposal.value, updatedAt: Date.now() })) discard(card.id);
   };
 
-  // Dashboard View (Màn hình đề xuất ôn tập)
-  if (!isStarted) {
-    const dueToday = getDueTodayCount();
-    const dueNow = dueCards.length;
-
-    return (
-      <div className="min-h-screen pt-36 px-6 max-w-xl mx-auto flex flex-col items-center justify-center pb-32">
-        <div className="w-full space-y-12 text-center">
-          <div className="space-y-2">
-            <h2 className="text-[10px] font-black uppercase tracking-[0.4em] text-[#00F3FF]">Daily Review Forecast</h2>
-            <h1 className="text-5xl font-black tracking-tighter uppercase">Your Study <span className="text-white/20">Flow</span></h1>
-          </div>
+  return (
+    <div className="min-h-screen pt-36 px-8 max-w-5xl mx-auto pb-32">
+      <div className="mb-16">
+        <h2 className="text-5xl font-black tracking-tighter uppercase">Leeches</h2>
+        <p className="text-red-400 text-xs font-mono mt-3 uppercase tracking-[0.2em] font-bold">{leeches.length} Cards Lapsed {threshold}+ Times</p>
+      </div>
+      {leeches.length === 0 ? (
+        <div className="text-center py-20 space-y-6">
+          <p className="text-white/40 text-sm font-light">No leeches. Cards that keep lapsing in study show up here for a rewrite.</p>
+          <Link to="/bank" className="inline-block px-12 py-5 border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-white/5 transition-all">Back to Vault</Link>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {leeches.map(card => {
+            const proposal = proposals[card.id];
+            return (
+              <div key={card.id} className="bg-[#0a0a0a] border border-red-500/10 p-8 rounded-3xl space-y-4">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex gap-2">
+                      <span className="text-[9px] font-black bg-red-500/10 text-red-400 px-2 py-0.5 rounded tracking-widest uppercase">{totalLapses(card)} Lapses</span>
+                      {card.suspended && <span className="text-[9px] font-black bg-yellow-500/10 text-yellow-400 px-2 py-0.5 rounded tracking-widest uppercase">Suspended</span>}
+                    </div>
+                    <h4 className="text-2xl font-bold text-white">{card.word}</h4>
+                    <p className="text-white/80 font-semibold">{card.meaning}</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button onClick={() => handleRegenerate(card, 'context')} disabled={generating !== null} className="text-[10px] font-black uppercase tracking-[0.2em] text-[#39FF14] border border-[#39FF14]/20 px-4 py-2 rounded-lg disabled:opacity-30">
+                      {generating === card.id ? 'Generating...' : 'New Context'}
+                    </button>
+                    <button onClick={() => handleRegenerate(card, 'mnemonic')} disabled={generating !== null} className="text-[10px] font-black uppercase tracking-[0.2em] text-[#39FF14] border border-[#39FF14]/20 px-4 py-2 rounded-lg disabled:opacity-30">Mnemonic</button>
+                    <button onClick={() => save(setSuspended(card, !card.suspended))} className="text-[10px] font-black uppercase tracking-[0.2em] text-white/60 border border-white/10 px-4 py-2 rounded-lg">{card.suspended ? 'Unsuspend' : 'Suspend'}</button>
+                    <button onClick={() => save(clearLeech(card))} className="text-[10px] font-black uppercase tracking-[0.2em] text-[#00F3FF] border border-[#00F3FF]/20 px-4 py-2 rounded-lg">Resolved</button>
+                  </div>
+                </div>
+                <p className="text-white/30 text-sm italic font-light whitespace-pre-line">"{card.context}"</p>
+                {card.mnemonic && <p className="text-white/50 text-sm font-light">{card.mnemonic}</p>}
+                {proposal && (
+                  <div className="bg-[#39FF14]/5 border border-[#39FF14]/20 p-5 rounded-2xl space-y-3">
+                    <p className="text-[9px] font-black uppercase tracking-widest text-[#39FF14]/60">Proposed {proposal.field === 'context' ? 'Context' : 'Mnemonic'}</p>
+                    <p className="text-white/80 text-sm font-light">{proposal.value}</p>
+                    <div className="flex gap-3">
+                      <button onClick={() => handleKeep(card)} className="px-4 py-2 bg-[#39FF14]/10 border border-[#39FF14]/20 text-[#39FF14] font-black uppercase tracking-[0.2em] text-[9px] rounded-lg">Keep</button>
+                      <button onClick={() => discard(card.id)} className="px-4 py-2 bg-white/5 border border-white/10 text-white/60 font-black uppercase tracking-[0.2em] text-[9px] rounded-lg">Discard</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
 
-          <div className="grid grid-cols-2 gap-4">
+const Library: React.FC<{ user: User }> = ({ user }) => {
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [summarizingId, setSummarizingId] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchLibrary = async () => {
+      try {
+        const [allArticles, allCards] = await Promise.all([repository.listArticles(user.id), repository.listCards(user.id)]);
+        setArticles(allArticles);
+        setCards(allCards);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    fetchLibrary();
+  }, [user.id]);
+
+  const lastActivity = (a: Article) => Math.max(a.processedAt ?? 0, a.summarizedAt ?? 0, a.createdAt);
+  const sorted = useMemo(() => [...articles].sort((a, b) => lastActivity(b) - lastActivity(a)), [articles]);
+
+  const handleResummarize = async (article: Article) => {
+    setSummarizingId(article.id);
+    try {
+      const text = await currentProvider().summarizeArticle(article.url || article.content || article.title);
+      const updated = { ...article, insights: text || '', summarizedAt: Date.now(), updatedAt: Date.now() };
+      await repository.saveArticle(updated);
+      setArticles(prev => prev.map(a => a.id === updated.id ? updated : a));
+      setExpandedId(article.id);
+    } catch (err) {
+      console.error(err);
+      alert(aiErrorMessage(err, "Summarization failed."));
+    } finally {
+      setSummarizingId(null);
+    }
+  };
+
+  // Cards stay in the vault; they only lose the link to the deleted article
+  const handleDelete = async (article: Article) => {
+    try {
+      const linked = cards.filter(c => c.articleId === article.id).map(({ articleId, ...card }) => ({ ...card, updatedAt: Date.now() }));
+      await repository.saveCards(linked);
+      await repository.deleteArticle(article.id);
+      setArticles(prev => prev.filter(a => a.id !== article.id));
+      setCards(prev => prev.map(c => linked.find(l => l.id === c.id) || c));
+    } catch (err) {
+      console.error(err);
+      alert("Failed to delete article.");
+    } finally {
+      setConfirmDeleteId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen pt-32 px-6 max-w-4xl mx-auto pb-32">
+      {summarizingId && <LoadingOverlay message="Running AI Analysis..." />}
+      <div className="mb-16">
+        <h2 className="text-5xl font-black tracking-tighter uppercase">Library</h2>
+        <p className="text-[#39FF14] text-xs font-mono mt-3 uppercase tracking-[0.2em] font-bold">{articles.length} Articles Processed</p>
+      </div>
+      {sorted.length === 0 ? (
+        <div className="text-center py-24 space-y-8">
+          <p className="text-white/30 font-light text-lg">Articles you process or summarize will appear here.</p>
+          <Link to="/" className="inline-block px-12 py-5 border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-white/5 transition-all">Process New Article</Link>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {sorted.map(article => {
+            const articleCards = cards.filter(c => c.articleId === article.id);
+            const isExpanded = expandedId === article.id;
+            return (
+              <div key={article.id} className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl hover:border-[#39FF14]/30 transition-all relative overflow-hidden">
+                {confirmDeleteId === article.id && (
+                  <div className="absolute inset-0 bg-red-600/90 backdrop-blur-sm z-40 flex flex-col items-center justify-center p-6 text-center animate-in fade-in duration-300">
+                    <p className="text-white font-black uppercase tracking-tighter text-xl mb-2">Remove From Library?</p>
+                    <p className="text-white/70 text-xs mb-4">Its {articleCards.length} cards stay in your vault.</p>
+                    <div className="flex gap-3 w-full max-w-sm">
+                      <button onClick={() => handleDelete(article)} className="flex-1 py-3 bg-white text-red-600 font-black uppercase tracking-widest text-[10px] rounded-xl hover:bg-gray-100 transition-all">Confirm</button>
+                      <button onClick={() => setConfirmDeleteId(null)} className="flex-1 py-3 bg-black/20 text-white font-black uppercase tracking-widest text-[10px] rounded-xl hover:bg-black/40 transition-all border border-white/20">Cancel</button>
+                    </div>
+                  </div>
+                )}
+                <div className="flex justify-between items-start gap-6 mb-4">
+                  <div className="space-y-2 min-w-0">
+                    <p className="text-[9px] font-black text-[#39FF14] uppercase tracking-widest">
+                      {new Date(lastActivity(article)).toLocaleDateString()}{article.author && ` · ${article.author}`}
+                    </p>
+                    <h4 className="text-2xl font-bold tracking-tight text-white">{article.title}</h4>
+                    {article.url && (
+                      <a href={article.url} target="_blank" rel="noopener noreferrer" className="block text-white/30 hover:text-[#00F3FF] text-xs font-mono truncate transition-colors">{article.url}</a>
+                    )}
+                  </div>
+                  <button onClick={() => setConfirmDeleteId(article.id)} className="p-2 text-red-500/30 hover:text-red-500 transition-all shrink-0" aria-label="Delete article">
+                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                  </button>
+                </div>
+                {article.summary && <p className="text-white/60 font-light leading-relaxed mb-6">{article.summary}</p>}
+                {article.insights && (
+                  <div className="mb-6">
+                    <button onClick={() => setExpandedId(isExpanded ? null : article.id)} className="text-[10px] font-black uppercase tracking-[0.2em] text-[#39FF14]/70 hover:text-[#39FF14] transition-colors">
+                      {isExpanded ? '− Hide Insights' : '+ Show Insights'}
+                    </button>
+                    {isExpanded && (
+                      <div className="text-white/70 mt-4 space-y-3 font-light leading-relaxed markdown-body">
+                        <ReactMarkdown>{article.insights}</ReactMarkdown>
+                      </div>
+                    )}
+                  </div>
+                )}
+                {articleCards.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-6">
+                    {articleCards.map(card => (
+                      <span key={card.id} className="text-xs bg-white/5 border border-white/10 text-white/60 px-3 py-1 rounded-lg">{card.word}</span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-3">
+                  <button onClick={() => navigate(`/bank?article=${encodeURIComponent(article.id)}`)} disabled={articleCards.length === 0} className="text-[10px] font-black uppercase tracking-[0.2em] text-black bg-white px-4 py-2 rounded-lg hover:bg-[#00F3FF] transition-all disabled:opacity-30">Open in Vault ({articleCards.length})</button>
+                  <button onClick={() => navigate(`/read/${encodeURIComponent(article.id)}`)} disabled={!article.url && !article.content} className="text-[10px] font-black uppercase tracking-[0.2em] text-[#00F3FF] border border-[#00F3FF]/20 px-4 py-2 rounded-lg hover:bg-[#00F3FF]/10 transition-all disabled:opacity-30">Read</button>
+                  <button onClick={() => handleResummarize(article)} className="text-[10px] font-black uppercase tracking-[0.2em] text-[#39FF14] border border-[#39FF14]/20 px-4 py-2 rounded-lg hover:bg-[#39FF14]/10 transition-all">{article.insights ? 'Re-summarize' : 'Summarize'}</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Reader: React.FC<{ user: User }> = ({ user }) => {
+  const { articleId } = useParams();
+  const [article, setArticle] = useState<Article | null>(null);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [loadingMessage, setLoadingMessage] = useState<string | null>("Loading Article...");
+  const [selection, setSelection] = useState<string | null>(null);
+  const [activeCard, setActiveCard] = useState<Flashcard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [articles, allCards] = await Promise.all([repository.listArticles(user.id), repository.listCards(user.id)]);
+        setCards(allCards);
+        const found = articles.find(a => a.id === articleId);
+        if (!found) {
+          setError("This article is not in your library.");
+          return;
+        }
+        if (found.content || !found.url) {
+          setArticle(found);
+          return;
+        }
+        // URL articles are fetched once, then kept so later visits open offline
+        setLoadingMessage("Fetching Article...");
+        const content = await currentProvider().fetchArticleText(found.url);
+        const updated = { ...found, content, updatedAt: Date.now() };
+        await repository.saveArticle(updated);
+        setArticle(updated);
+      } catch (err) {
+        console.error(err);
+        setError(aiErrorMessage(err, "Failed to load the article."));
+      } finally {
+        setLoadingMessage(null);
+      }
+    };
+    load();
+  }, [user.id, articleId]);
+
+  const paragraphs = useMemo(() => splitParagraphs(article?.content || ''), [article?.content]);
+  const segmented = useMemo(() => paragraphs.map(p => segmentText(p, cards)), [paragraphs, cards]);
+
+  // A drag-selection picks a phrase; a plain click on an unhighlighted word picks that word
+  const handleMouseUp = () => {
+    const picked = window.getSelection()?.toString().trim().replace(/\s+/g, ' ') || '';
+    if (picked && picked.split(' ').length <= 6) {
+      setActiveCard(null);
+      setSelection(picked);
+    }
+  };
+
+  const handleWordClick = (e: React.MouseEvent<HTMLSpanElement>) => {
+    if (window.getSelection()?.toString().trim()) return;
+    const word = e.currentTarget.textContent?.match(/\p{L}+(?:['\u2019-]\p{L}+)*/u)?.[0];
+    if (word) {
+      setActiveCard(null);
+      setSelection(word);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!article || !selection) return;
+    setLoadingMessage("Running AI Analysis...");
+    try {
+      const profile = loadProfile(user.id);
+      const result = await currentProvider().processWord(selection, profile, sentenceAround(article.content || '', selection));
+      const key = normalizeWord(String(result.word));
+      const existing = cards.find(c => normalizeWord(c.word) === key);
+      if (existing) {
+        setActiveCard(existing);
+      } else {
+        const card: Flashcard = { ...initializeCard({ ...result, meaningLanguage: profile.nativeLanguage }, article.title, user.id), articleId: article.id };
+        await repository.saveCard(card);
+        const updated = { ...article, cardIds: [...article.cardIds, card.id], updatedAt: Date.now() };
+        await repository.saveArticle(updated);
+        setArticle(updated);
+        setCards(prev => [...prev, card]);
+        setActiveCard(card);
+      }
+      setSelection(null);
+    } catch (err) {
+      console.error(err);
+      alert(aiErrorMessage(err, "Failed to create card."));
+    } finally {
+      setLoadingMessage(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen pt-32 px-6 max-w-3xl mx-auto text-center space-y-8">
+        <p className="text-white/40 font-light text-lg">{error}</p>
+        <Link to="/library" className="inline-block px-12 py-5 border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-white/5 transition-all">Back to Library</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-32 px-6 max-w-3xl mx-auto pb-48">
+      {loadingMessage && <LoadingOverlay message={loadingMessage} />}
+      {article && (
+        <>
+          <div className="mb-12 space-y-4">
+            <Link to="/library" className="text-[10px] font-black uppercase tracking-[0.2em] text-white/30 hover:text-white transition-colors">← Library</Link>
+            <h2 className="text-4xl font-black tracking-tighter">{article.title}</h2>
+            {article.url && <a href={article.url} target="_blank" rel="noopener noreferrer" className="block text-white/30 hover:text-[#00F3FF] text-xs font-mono truncate transition-colors">{article.url}</a>}
+            <div className="flex flex-wrap gap-3 pt-2">
+              {[CardState.NEW, CardState.LEARNING, CardState.REVIEW, CardState.RELEARNING].map(state => (
+                <span key={state} className={`text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded ${STATE_HIGHLIGHTS[state]}`}>{CARD_STATE_LABELS[state]}</span>
+              ))}
+            </div>
+          </div>
+          <div onMouseUp={handleMouseUp} className="space-y-6 text-lg font-light leading-loose text-white/80 selection:bg-[#00F3FF]/30">
+            {segmented.map((segments, i) => (
+              <p key={i}>
+                {segments.map((segment, j) => segment.card ? (
+                  <button key={j} onClick={() => { setSelection(null); setActiveCard(segment.card!); }} className={`rounded px-0.5 font-normal ${STATE_HIGHLIGHTS[segment.card.state]}`}>{segment.text}</button>
+                ) : (
+                  segment.text.split(/(\s+)/).map((part, k) => <span key={`${j}-${k}`} onClick={handleWordClick} className="cursor-pointer hover:text-white">{part}</span>)
+                ))}
+              </p>
+            ))}
+          </div>
+        </>
+      )}
+      {(selection || activeCard) && (
+        <div className="fixed bottom-0 inset-x-0 z-40 p-6">
+          <div className="max-w-3xl mx-auto bg-[#0a0a0a] border border-white/10 rounded-3xl p-6 shadow-2xl flex flex-col md:flex-row md:items-center gap-4 animate-in fade-in slide-in-from-bottom-4 duration-300">
+            {activeCard ? (
+              <div className="flex-grow min-w-0">
+                <div className="flex items-center gap-3">
+                  <h4 className="text-xl font-bold text-white">{activeCard.word}</h4>
+                  <span className="text-white/30 text-xs font-mono">{activeCard.pronunciation}</span>
+                  <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded ${STATE_HIGHLIGHTS[activeCard.state]}`}>{CARD_STATE_LABELS[activeCard.state]}</span>
+                </div>
+                <p className="text-white/70 mt-1">{activeCard.meaning}</p>
+              </div>
+            ) : (
+              <p className="flex-grow text-white/70 min-w-0 truncate">Add <span className="text-white font-bold">"{selection}"</span> to your vault?</p>
+            )}
+            <div className="flex gap-3 shrink-0">
+              {activeCard ? (
+                <button onClick={() => speak(activeCard.word)} className="px-5 py-3 bg-white/5 hover:bg-[#00F3FF]/20 rounded-xl text-[#00F3FF] text-[10px] font-black uppercase tracking-[0.2em] transition-all">Listen</button>
+              ) : (
+                <button onClick={handleAdd} className="px-5 py-3 bg-white text-black rounded-xl text-[10px] font-black uppercase tracking-[0.2em] hover:bg-[#00F3FF] transition-all">Create Card</button>
+              )}
+              <button onClick={() => { setSelection(null); setActiveCard(null); }} className="px-5 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-[10px] font-black uppercase tracking-[0.2em] hover:bg-white/10 transition-all">Close</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// `onAssessingChange` lets Study hold off ratings while a take is scored, since the attempt is saved onto the card afterwards
+const SpeakPanel: React.FC<{ card: Flashcard; onSaved: (card: Flashcard) => void; onAssessingChange?: (assessing: boolean) => void }> = ({ card, onSaved, onAssessingChange }) => {
+  const [target, setTarget] = useState<PronunciationAttempt['target']>('word');
+  const [recording, setRecording] = useState<Recording | null>(null);
+  // Mirrors `recording` for the cleanup below, which would otherwise see the value from an old render
+  const recordingRef = useRef<Recording | null>(null);
+  // The latest copy of the card, so an edit made while scoring isn't overwritten by the attempt
+  const cardRef = useRef(card);
+  cardRef.current = card;
+  const [isAssessing, setIsAssessing] = useState(false);
+  const [result, setResult] = useState<PronunciationAttempt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const text = target === 'context' && card.context.trim() ? card.context : card.word;
+
+  // A new card starts a clean panel; an unfinished take is thrown away
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    return () => {
+      recordingRef.current?.cancel();
+      recordingRef.current = null;
+    };
+  }, [card.id]);
+
+  const setAssessing = (assessing: boolean) => {
+    setIsAssessing(assessing);
+    onAssessingChange?.(assessing);
+  };
+
+  const handleRecord = async () => {
+    setError(null);
+    if (!recording) {
+      try {
+        setResult(null);
+        const started = await startRecording();
+        recordingRef.current = started;
+        setRecording(started);
+      } catch (err) {
+        console.error(err);
+        setError("Microphone access was denied.");
+      }
+      return;
+    }
+    recordingRef.current = null;
+    setRecording(null);
+    setAssessing(true);
+    try {
+      const audio = await recording.stop();
+      const assessment = await assessor.assess(audio, text, target === 'word' ? card.pronunciation : '');
+      const attempt: PronunciationAttempt = { at: Date.now(), target, ...assessment };
+      const updated = recordAttempt(cardRef.current.id === card.id ? cardRef.current : card, attempt);
+      await repository.saveCard(updated);
+      setResult(attempt);
+      onSaved(updated);
+    } catch (err) {
+      console.error(err);
+      setError("Assessment failed.");
+    } finally {
+      setAssessing(false);
+    }
+  };
+
+  return (
+    <div className="w-full mt-6 bg-[#0a0a0a] border border-white/10 rounded-2xl p-5 space-y-4">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleRecord}
+          disabled={isAssessing}
+          className={`px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-[0.2em] transition-all disabled:opacity-30 ${recording ? 'bg-red-500 text-white animate-pulse' : 'bg-white/5 border border-white/10 text-white hover:bg-white/10'}`}
+        >
+          {isAssessing ? 'Scoring...' : recording ? 'Stop' : 'Speak It'}
+        </button>
+        <button
+          onClick={() => setTarget(prev => prev === 'word' ? 'context' : 'word')}
+          disabled={!!recording || isAssessing}
+          className="text-[10px] font-black uppercase tracking-[0.2em] text-white/40 hover:text-white transition-colors disabled:opacity-30"
+        >
+          {target === 'word' ? 'Word' : 'Sentence'}
+        </button>
+        {result && (
+          <span className={`ml-auto text-2xl font-black tracking-tighter ${result.score >= 80 ? 'text-[#39FF14]' : result.score >= 50 ? 'text-amber-300' : 'text-red-500'}`}>{result.score}</span>
+        )}
+      </div>
+      {error && <p className="text-red-500 text-xs">{error}</p>}
+      {result && (
+        <div className="space-y-2">
+          {result.transcript && <p className="text-white/40 text-xs">Heard: <span className="text-white/70">{result.transcript}</span></p>}
+          {result.issues.map((issue, i) => (
+            <p key={i} className="text-xs text-white/60">
+              <span className="text-white font-bold">{issue.segment}</span>{' '}
+              <span className="font-mono text-[#39FF14]">{issue.expected}</span> → <span className="font-mono text-red-400">{issue.heard}</span>
+              {issue.tip && <span className="text-white/40"> · {issue.tip}</span>}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PREFETCH_AHEAD = 5;
+const MAX_UNDO = 50;
+const RATING_KEYS: Record<string, Difficulty> = { '1': Difficulty.AGAIN, '2': Difficulty.HARD, '3': Difficulty.GOOD, '4': Difficulty.EASY };
+
+// Everything a rating changed, so undo can put the session back exactly as it was
+interface UndoEntry {
+  card: Flashcard; // The whole note before the rating
+  logId: string;
+  index: number;
+  dueCards: StudyItem[];
+  stepCards: StudyItem[];
+  answers: SessionAnswer[];
+  counts: DailyCounts;
+}
+
+// Whether a saved session still has cards to show
+const hasCardsLeft = (session: StudySession) => session.index < session.queue.length || session.stepCards.length > 0;
+
+const Study: React.FC<{ user: User }> = ({ user }) => {
+  const [allCards, setAllCards] = useState<Flashcard[]>([]);
+  const [dueCards, setDueCards] = useState<StudyItem[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [isStarted, setIsStarted] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  // Cards rated into a (re)learning step, waiting to be re-inserted once their step comes due
+  const [stepCards, setStepCards] = useState<StudyItem[]>([]);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [answers, setAnswers] = useState<SessionAnswer[]>([]);
+  const [savedSession, setSavedSession] = useState<StudySession | null>(null);
+  const sessionStartRef = useRef(Date.now());
+  // Set while a rating is saving or animating out, so a repeated key press can't rate the same card twice
+  const busyRef = useRef(false);
+  // A pronunciation take being scored is saved onto the current card, so the card can't be rated until it lands
+  const [isAssessing, setIsAssessing] = useState(false);
+  const shownAtRef = useRef(Date.now());
+  const [srsParams, setSrsParams] = useState<SrsParams>(() => loadSrsParams(user.id));
+  const [learningStepsInput, setLearningStepsInput] = useState(() => formatSteps(srsParams.learningSteps));
+  const [relearningStepsInput, setRelearningStepsInput] = useState(() => formatSteps(srsParams.relearningSteps));
+  const [templates, setTemplates] = useState<CardTemplate[]>(() => {
+    const stored = localStorage.getItem(STORAGE_KEYS.TEMPLATES(user.id));
+    return stored ? JSON.parse(stored) : DEFAULT_TEMPLATES;
+  });
+
+  const [typedMode, setTypedMode] = useState(() => localStorage.getItem(STORAGE_KEYS.TYPED_ANSWERS(user.id)) === 'true');
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [grade, setGrade] = useState<AnswerGrade | null>(null);
+  const [listening, setListening] = useState<ListeningSettings>(() => {
+    const stored = localStorage.getItem(STORAGE_KEYS.LISTENING(user.id));
+    return { ...DEFAULT_LISTENING, ...(stored ? JSON.parse(stored) : {}) };
+  });
+  const [limits, setLimits] = useState<DailyLimits>(() => parseLimits(localStorage.getItem(STORAGE_KEYS.DAILY_LIMITS(user.id))));
+  const [dailyCounts, setDailyCounts] = useState<DailyCounts>(() => {
+    const stored = localStorage.getItem(STORAGE_KEYS.DAILY_COUNTS(user.id));
+    return countsForToday(stored ? JSON.parse(stored) : null);
+  });
+  const [queue, setQueue] = useState<Omit<StudyQueue, 'items'>>({ learning: 0, reviews: 0, newCards: 0 });
+  const [leechSettings, setLeechSettings] = useState<LeechSettings>(() => parseLeechSettings(localStorage.getItem(STORAGE_KEYS.LEECH(user.id))));
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.TEMPLATES(user.id), JSON.stringify(templates));
+  }, [templates, user.id]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.TYPED_ANSWERS(user.id), String(typedMode));
+  }, [typedMode, user.id]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.LISTENING(user.id), JSON.stringify(listening));
+  }, [listening, user.id]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.DAILY_LIMITS(user.id), JSON.stringify(limits));
+  }, [limits, user.id]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.DAILY_COUNTS(user.id), JSON.stringify(dailyCounts));
+  }, [dailyCounts, user.id]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.LEECH(user.id), JSON.stringify(leechSettings));
+  }, [leechSettings, user.id]);
+
+  // The session's stack is built once from the limited queue; step repeats are inserted into it as they come due
+  const loadQueue = (cards: Flashcard[], activeTemplates: CardTemplate[], activeLimits: DailyLimits) => {
+    const { items, ...breakdown } = buildQueue(cards, activeTemplates, activeLimits, countsForToday(dailyCounts));
+    setDueCards(items);
+    setQueue(breakdown);
+  };
+
+  useEffect(() => {
+    const { requestRetention, learningSteps, relearningSteps } = srsParams;
+    localStorage.setItem(STORAGE_KEYS.SRS_SETTINGS(user.id), JSON.stringify({ requestRetention, learningSteps, relearningSteps }));
+    repository.setSrsParams(srsParams);
+  }, [srsParams, user.id]);
+
+  useEffect(() => {
+    const fetchCards = async () => {
+      try {
+        const [all, session] = await Promise.all([repository.listCards(user.id), repository.getStudySession(user.id).catch(() => null)]);
+        
+        setAllCards(all);
+        loadQueue(all, templates, limits);
+        if (session && hasCardsLeft(session)) setSavedSession(session);
+        else if (session) repository.clearStudySession(user.id);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    fetchCards();
+  }, [user.id]);
+
+  // Saved after every settled rating; a rating still animating out is saved once the index moves on
+  useEffect(() => {
+    if (!isStarted || busyRef.current) return;
+    if (currentIndex >= dueCards.length && stepCards.length === 0) {
+      repository.clearStudySession(user.id).catch(console.error);
+      return;
+    }
+    repository.saveStudySession({
+      userId: user.id,
+      queue: dueCards,
+      index: currentIndex,
+      stepCards,
+      answers,
+      startedAt: sessionStartRef.current,
+      updatedAt: Date.now(),
+    }).catch(console.error);
+  }, [isStarted, dueCards, currentIndex, stepCards, answers]);
+
+  const startSession = () => {
+    sessionStartRef.current = Date.now();
+    setAnswers([]);
+    setUndoStack([]);
+    setSavedSession(null);
+    setIsStarted(true);
+  };
+
+  const resumeSession = (session: StudySession) => {
+    // Cards deleted, suspended or buried since the session was saved are dropped from what is left of it
+    const exists = (item: StudyItem) => allCards.some(c => c.id === item.cardId && isStudyable(c));
+    sessionStartRef.current = session.startedAt;
+    setDueCards([...session.queue.slice(0, session.index), ...session.queue.slice(session.index).filter(exists)]);
+    setCurrentIndex(session.index);
+    setStepCards(session.stepCards.filter(exists));
+    setAnswers(session.answers);
+    setUndoStack([]);
+    setSavedSession(null);
+    setIsStarted(true);
+  };
+
+  const handleDeleteCard = async (cardId: string) => {
+    if (isAssessing) return;
+    try {
+      await repository.deleteCard(cardId);
+      setAllCards(prev => prev.filter(c => c.id !== cardId));
+      // Earlier positions may hold answered step repeats of this card; keep them so the index stays put
+      setDueCards(prev => prev.filter((item, i) => i < currentIndex || item.cardId !== cardId));
+      setStepCards(prev => prev.filter(item => item.cardId !== cardId));
+      setIsFlipped(false);
+      setIsConfirmingDelete(false);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to delete card.");
+    }
+  };
+
+  const handleRate = async (rating: Difficulty) => {
+    if (busyRef.current || isAssessing) return;
+    busyRef.current = true;
+    const item = dueCards[currentIndex];
+    const card = allCards.find(c => c.id === item.cardId)!;
+    // Only the schedule of the template being studied moves; its siblings keep their own
+    const before = getTemplateCard(card, item.template);
+    const scheduled = scheduleReview(before, rating, Date.now(), srsParams);
+    const updated = checkLeech(setTemplateCard(card, item.template, scheduled), before, scheduled, rating, leechSettings);
+    const justSuspended = !!updated.suspended && !card.suspended;
+    const log = createReviewLog(before, scheduled, rating, Date.now() - shownAtRef.current, item.template);
+    
+    try {
+      // Sync updated card and its review log in one write
+      await repository.recordReview(updated, log);
+      setUndoStack(prev => [...prev, { card, logId: log.id, index: currentIndex, dueCards, stepCards, answers, counts: dailyCounts }].slice(-MAX_UNDO));
+      setDailyCounts(prev => countRating(prev, before));
+      setAnswers(prev => [...prev, {
+        cardId: card.id,
+        template: item.template,
+        rating,
+        answerTimeMs: log.answerTimeMs,
+        lapsed: before.state === CardState.REVIEW && rating === Difficulty.AGAIN,
+      }]);
+      
+      // Update local state
+      const nextCards = allCards.map(c => c.id === card.id ? updated : c);
+      setAllCards(nextCards);
+      
+      // Re-insert any step cards that have come due right after the current position.
+      // When the stack runs out, learn ahead with the earliest pending step instead of ending the session.
+      const now = Date.now();
+      const dueOf = (i: StudyItem) => getTemplateCard(nextCards.find(c => c.id === i.cardId)!, i.template).due;
+      // A card the leech rule just suspended leaves the rest of the session
+      const keep = (i: StudyItem) => !justSuspended || i.cardId !== card.id;
+      const rest = dueCards.slice(currentIndex + 1).filter(keep);
+      const pending = [...stepCards.filter(keep), ...(isInSteps(scheduled) && keep(item) ? [item] : [])].sort((a, b) => dueOf(a) - dueOf(b));
+      let ready = pending.filter(i => dueOf(i) <= now);
+      if (ready.length === 0 && rest.length === 0 && pending.length > 0) ready = [pending[0]];
+      setStepCards(pending.filter(c => !ready.includes(c)));
+      setDueCards([...dueCards.slice(0, currentIndex + 1), ...ready, ...rest]);
+      if (updated.leech && !card.leech) {
+        alert(`"${card.word}" keeps slipping and is now marked as a leech${justSuspended ? ' and suspended' : ''}. Rework it from the Leeches page.`);
+      }
+
+      setIsFlipped(false);
+      setTimeout(() => {
+        setCurrentIndex(prev => prev + 1);
+        busyRef.current = false;
+      }, 300);
+    } catch (err) {
+      busyRef.current = false;
+      console.error(err);
+      alert("Failed to save progress.");
+    }
+  };
+
+  // Suspending or burying takes every remaining item of the note out of the session, like deleting it
+  const handleSetAside = async (kind: 'suspend' | 'bury') => {
+    if (isAssessing) return;
+    const card = allCards.find(c => c.id === dueCards[currentIndex].cardId)!;
+    const updated = kind === 'suspend' ? setSuspended(card, true) : buryUntilTomorrow(card);
+    try {
+      await repository.saveCard(updated);
+      setAllCards(prev => prev.map(c => c.id === updated.id ? updated : c));
+      setDueCards(prev => prev.filter((item, i) => i < currentIndex || item.cardId !== card.id));
+      setStepCards(prev => prev.filter(item => item.cardId !== card.id));
+      // Earlier snapshots still hold the note's items, so undoing past this point would bring it back
+      setUndoStack([]);
+      setIsFlipped(false);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to ${kind} card.`);
+    }
+  };
+
+  const handleUndo = async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || busyRef.current || isAssessing) return;
+    busyRef.current = true;
+    // A fresh timestamp lets the restored copy win the merge against the rated one on other devices
+    const restored = { ...entry.card, updatedAt: Date.now() };
+    try {
+      await repository.undoReview(restored, entry.logId);
+      setAllCards(prev => prev.map(c => c.id === restored.id ? restored : c));
+      setDueCards(entry.dueCards);
+      setStepCards(entry.stepCards);
+      setAnswers(entry.answers);
+      setDailyCounts(entry.counts);
+      setUndoStack(prev => prev.slice(0, -1));
+      setCurrentIndex(entry.index);
+      setIsFlipped(false);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to undo the last rating.");
+    } finally {
+      busyRef.current = false;
+    }
+  };
+
+  // Recall and cloze fronts would give their answer away if read aloud, so they only replay once flipped
+  const handleReplay = () => {
+    const item = dueCards[currentIndex];
+    const card = item && allCards.find(c => c.id === item.cardId);
+    if (!card) return;
+    if (item.template === 'listening') speak(listeningText(card, listening));
+    else if (item.template === 'recognition' || isFlipped) speak(card.word);
+  };
+
+  // Re-bound on every render so the handler always sees the current card
+  useEffect(() => {
+    if (!isStarted || isEditing || isConfirmingDelete) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.ctrlKey || e.metaKey || e.altKey || target.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      // Undo also works from the end-of-session screen, where there is no current card
+      if (key === 'z') return void handleUndo();
+      const item = dueCards[currentIndex];
+      if (!item) return;
+      const needsAnswer = typedMode || item.template === 'listening';
+      const canRate = !needsAnswer || !!grade;
+      if (key === ' ' && canRate) {
+        e.preventDefault();
+        // Otherwise the focused button, often the last rating pressed, would be clicked as well
+        target.blur();
+        setIsFlipped(prev => !prev);
+      } else if (key in RATING_KEYS && canRate) {
+        handleRate(RATING_KEYS[key]);
+      } else if (key === 'r') {
+        handleReplay();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  useEffect(() => {
+    shownAtRef.current = Date.now();
+    setTypedAnswer('');
+    setGrade(null);
+    const item = dueCards[currentIndex];
+    const card = item && allCards.find(c => c.id === item.cardId);
+    if (!isStarted || !card || !listening.autoplay) return;
+    // Recall and cloze cards would give their answer away if read aloud
+    if (item.template === 'listening') playPronunciation(listeningText(card, listening));
+    else if (item.template === 'recognition') playPronunciation(card.word);
+  }, [currentIndex, isStarted]);
+
+  // Audio for the next few cards is fetched ahead, so playback doesn't wait on the model
+  useEffect(() => {
+    if (!isStarted) return;
+    const texts = dueCards.slice(currentIndex, currentIndex + PREFETCH_AHEAD).flatMap((item) => {
+      const card = allCards.find(c => c.id === item.cardId);
+      if (!card) return [];
+      return item.template === 'listening' ? [listeningText(card, listening)] : [card.word];
+    });
+    prefetchPronunciations(texts);
+  }, [currentIndex, isStarted, dueCards]);
+
+  // Distractors are drawn once per card shown, so re-renders don't reshuffle the options
+  const choices = useMemo(() => {
+    const item = dueCards[currentIndex];
+    const card = item && allCards.find(c => c.id === item.cardId);
+    return card && item.template === 'listening' && listening.answer === 'choose' ? meaningChoices(card, allCards) : [];
+  }, [currentIndex, isStarted, listening.answer]);
+
+  // Grading only suggests a rating; the learner still confirms it through handleRate
+  const handleCheckAnswer = () => {
+    const item = dueCards[currentIndex];
+    const card = allCards.find(c => c.id === item.cardId)!;
+    const expected = expectedAnswer(card, item.template, listeningText(card, listening));
+    setGrade(gradeAnswer(typedAnswer, expected, Date.now() - shownAtRef.current));
+    setIsFlipped(true);
+  };
+
+  const handleChoose = (meaning: string) => {
+    const card = allCards.find(c => c.id === dueCards[currentIndex].cardId)!;
+    setGrade(gradeChoice(meaning, card.meaning, Date.now() - shownAtRef.current));
+    setIsFlipped(true);
+  };
+
+  const commitSteps = (key: 'learningSteps' | 'relearningSteps', input: string) => {
+    const steps = parseSteps(input);
+    setSrsParams(prev => ({ ...prev, [key]: steps }));
+    if (key === 'learningSteps') setLearningStepsInput(formatSteps(steps));
+    else setRelearningStepsInput(formatSteps(steps));
+  };
+
+  const getDueTodayCount = () => {
+    const endOfDay = new Date();
+    endOfDay.setHours(23, 59, 59, 999);
+    return buildQueue(allCards, templates, limits, countsForToday(dailyCounts), endOfDay.getTime()).items.length;
+  };
+
+  const toggleTemplate = (template: CardTemplate) => {
+    const next = templates.includes(template) ? templates.filter(t => t !== template) : [...templates, template];
+    if (next.length === 0) return;
+    setTemplates(next);
+    loadQueue(allCards, next, limits);
+  };
+
+  const updateLimits = (patch: Partial<DailyLimits>) => {
+    const next = { ...limits, ...patch };
+    setLimits(next);
+    loadQueue(allCards, templates, next);
+  };
+
+  const commitLimit = (key: 'newPerDay' | 'reviewsPerDay', input: string) => {
+    const value = Math.round(Number(input));
+    if (Number.isFinite(value) && value >= 0) updateLimits({ [key]: value });
+  };
+
+  // Dashboard View (Màn hình đề xuất ôn tập)
+  if (!isStarted) {
+    const dueToday = getDueTodayCount();
+    const dueNow = dueCards.length;
+
+    return (
+      <div className="min-h-screen pt-36 px-6 max-w-xl mx-auto flex flex-col items-center justify-center pb-32">
+        <div className="w-full space-y-12 text-center">
+          <div className="space-y-2">
+            <h2 className="text-[10px] font-black uppercase tracking-[0.4em] text-[#00F3FF]">Daily Review Forecast</h2>
+            <h1 className="text-5xl font-black tracking-tighter uppercase">Your Study <span className="text-white/20">Flow</span></h1>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
             <div className="bg-[#0a0a0a] border border-white/5 p-10 rounded-[2rem] space-y-2">
               <p className="text-5xl font-black text-[#00F3FF] tracking-tighter">{dueNow}</p>
               <p className="text-[9px] font-black uppercase tracking-widest text-white/40">Due Now</p>
+              <p className="text-[9px] font-mono text-white/30">{queue.newCards} new · {queue.reviews} review · {queue.learning} learning</p>
             </div>
             <div className="bg-[#0a0a0a] border border-white/5 p-10 rounded-[2rem] space-y-2">
               <p className="text-5xl font-black text-[#39FF14] tracking-tighter">{dueToday}</p>
@@ -546,15 +2023,158 @@ const Study: React.FC<{ user: User }> = ({ user }) => {
             </div>
           </div>
 
-          <div className="pt-6">
+          <div className="space-y-4">
+            <p className="text-[9px] font-black uppercase tracking-widest text-white/40">Target Retention</p>
+            <div className="grid grid-cols-4 gap-2">
+              {[0.8, 0.85, 0.9, 0.95].map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setSrsParams(prev => ({ ...prev, requestRetention: value }))}
+                  className={`py-3 border rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${srsParams.requestRetention === value ? 'border-[#00F3FF]/50 text-[#00F3FF] bg-[#00F3FF]/10' : 'border-white/10 text-white/40 hover:bg-white/5'}`}
+                >
+                  {Math.round(value * 100)}%
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setTypedMode(prev => !prev)}
+              className={`w-full py-3 border rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${typedMode ? 'border-[#00F3FF]/50 text-[#00F3FF] bg-[#00F3FF]/10' : 'border-white/10 text-white/40 hover:bg-white/5'}`}
+            >
+              Typed Answers: {typedMode ? 'On' : 'Off'}
+            </button>
+            <p className="text-[9px] font-black uppercase tracking-widest text-white/40 pt-2">Card Types</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {CARD_TEMPLATES.map((template) => (
+                <button
+                  key={template}
+                  onClick={() => toggleTemplate(template)}
+                  className={`py-3 border rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${templates.includes(template) ? 'border-[#39FF14]/50 text-[#39FF14] bg-[#39FF14]/10' : 'border-white/10 text-white/40 hover:bg-white/5'}`}
+                >
+                  {TEMPLATE_LABELS[template]}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={() => setListening(prev => ({ ...prev, playback: prev.playback === 'word' ? 'context' : 'word' }))}
+                className="py-3 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-white/60 hover:bg-white/5 transition-all"
+              >
+                Play: {listening.playback === 'word' ? 'Word' : 'Sentence'}
+              </button>
+              <button
+                onClick={() => setListening(prev => ({ ...prev, answer: prev.answer === 'type' ? 'choose' : 'type' }))}
+                className="py-3 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-white/60 hover:bg-white/5 transition-all"
+              >
+                Listen: {listening.answer === 'type' ? 'Dictation' : 'Meaning'}
+              </button>
+              <button
+                onClick={() => setListening(prev => ({ ...prev, autoplay: !prev.autoplay }))}
+                className={`py-3 border rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${listening.autoplay ? 'border-[#00F3FF]/50 text-[#00F3FF] bg-[#00F3FF]/10' : 'border-white/10 text-white/40 hover:bg-white/5'}`}
+              >
+                Autoplay: {listening.autoplay ? 'On' : 'Off'}
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <label className="space-y-2 text-left">
+                <span className="text-[9px] font-black uppercase tracking-widest text-white/40">New / Day</span>
+                <input
+                  type="number"
+                  min={0}
+                  defaultValue={limits.newPerDay}
+                  onBlur={e => commitLimit('newPerDay', e.target.value)}
+                  className="w-full bg-[#0a0a0a] border border-white/10 p-3 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 text-[10px] font-mono tracking-widest transition-all"
+                />
+              </label>
+              <label className="space-y-2 text-left">
+                <span className="text-[9px] font-black uppercase tracking-widest text-white/40">Reviews / Day</span>
+                <input
+                  type="number"
+                  min={0}
+                  defaultValue={limits.reviewsPerDay}
+                  onBlur={e => commitLimit('reviewsPerDay', e.target.value)}
+                  className="w-full bg-[#0a0a0a] border border-white/10 p-3 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 text-[10px] font-mono tracking-widest transition-all"
+                />
+              </label>
+              <label className="space-y-2 text-left">
+                <span className="text-[9px] font-black uppercase tracking-widest text-white/40">New Cards</span>
+                <select
+                  value={limits.newMix}
+                  onChange={e => updateLimits({ newMix: e.target.value as NewCardMix })}
+                  className="w-full bg-[#0a0a0a] border border-white/10 p-3 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 text-[10px] font-black uppercase tracking-widest transition-all"
+                >
+                  {(Object.keys(NEW_MIX_LABELS) as NewCardMix[]).map((mix) => (
+                    <option key={mix} value={mix}>{NEW_MIX_LABELS[mix]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-2 text-left">
+                <span className="text-[9px] font-black uppercase tracking-widest text-white/40">Leech After (Lapses)</span>
+                <input
+                  type="number"
+                  min={1}
+                  defaultValue={leechSettings.threshold}
+                  onBlur={e => setLeechSettings(prev => parseLeechSettings(JSON.stringify({ ...prev, threshold: e.target.value })))}
+                  className="w-full bg-[#0a0a0a] border border-white/10 p-3 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 text-[10px] font-mono tracking-widest transition-all"
+                />
+              </label>
+              <label className="space-y-2 text-left">
+                <span className="text-[9px] font-black uppercase tracking-widest text-white/40">Leech Action</span>
+                <select
+                  value={leechSettings.action}
+                  onChange={e => setLeechSettings(prev => ({ ...prev, action: e.target.value as LeechAction }))}
+                  className="w-full bg-[#0a0a0a] border border-white/10 p-3 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 text-[10px] font-black uppercase tracking-widest transition-all"
+                >
+                  {(Object.keys(LEECH_ACTION_LABELS) as LeechAction[]).map((action) => (
+                    <option key={action} value={action}>{LEECH_ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-2 text-left">
+                <span className="text-[9px] font-black uppercase tracking-widest text-white/40">Learning Steps</span>
+                <input
+                  value={learningStepsInput}
+                  onChange={e => setLearningStepsInput(e.target.value)}
+                  onBlur={e => commitSteps('learningSteps', e.target.value)}
+                  placeholder="1m 10m"
+                  className="w-full bg-[#0a0a0a] border border-white/10 p-3 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 text-[10px] font-mono tracking-widest transition-all"
+                />
+              </label>
+              <label className="space-y-2 text-left">
+                <span className="text-[9px] font-black uppercase tracking-widest text-white/40">Relearning Steps</span>
+                <input
+                  value={relearningStepsInput}
+                  onChange={e => setRelearningStepsInput(e.target.value)}
+                  onBlur={e => commitSteps('relearningSteps', e.target.value)}
+                  placeholder="10m"
+                  className="w-full bg-[#0a0a0a] border border-white/10 p-3 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 text-[10px] font-mono tracking-widest transition-all"
+                />
+              </label>
+            </div>
+          </div>
+
+          <div className="pt-6 space-y-3">
+            {savedSession && (
+              <button
+                onClick={() => resumeSession(savedSession)}
+                className="w-full py-6 bg-[#00F3FF] text-black font-black uppercase tracking-[0.3em] rounded-2xl hover:bg-white transition-all text-xs shadow-2xl"
+              >
+                Resume Session · {savedSession.queue.length - savedSession.index + savedSession.stepCards.length} Left
+              </button>
+            )}
             {dueNow > 0 ? (
               <button 
-                onClick={() => setIsStarted(true)} 
-                className="w-full py-6 bg-white text-black font-black uppercase tracking-[0.3em] rounded-2xl hover:bg-[#00F3FF] transition-all text-xs shadow-2xl"
+                onClick={startSession} 
+                className={savedSession
+                  ? 'w-full py-4 border border-white/10 text-white/60 font-black uppercase tracking-[0.3em] rounded-2xl hover:bg-white/5 transition-all text-[10px]'
+                  : 'w-full py-6 bg-white text-black font-black uppercase tracking-[0.3em] rounded-2xl hover:bg-[#00F3FF] transition-all text-xs shadow-2xl'}
               >
-                Start Learning Flow
+                {savedSession ? 'Start New Session' : 'Start Learning Flow'}
               </button>
-            ) : (
+            ) : !savedSession && (
               <div className="space-y-6">
                 <p className="text-white/40 text-sm font-light">Your vault is currently synchronized. All pending cards are mastered for this moment.</p>
                 <Link to="/" className="inline-block px-12 py-5 border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-white/5 transition-all">Process New Article</Link>
@@ -567,19 +2187,78 @@ const Study: React.FC<{ user: User }> = ({ user }) => {
   }
 
   if (dueCards.length === 0 || currentIndex >= dueCards.length) {
+    const summary = summarizeSession(answers);
+    const seconds = Math.round(summary.timeMs / 1000);
+    const lapsedWords = Array.from(new Set(summary.lapsedCardIds.map(id => allCards.find(c => c.id === id)?.word).filter((w): w is string => !!w)));
     return (
-      <div className="min-h-screen flex flex-col items-center justify-center p-8 text-center space-y-8">
-        <h2 className="text-5xl font-black uppercase">Session Mastered</h2>
-        <p className="text-white/30 max-w-sm">History synced. Come back for the next flow cycle.</p>
+      <div className="min-h-screen flex flex-col items-center justify-center pt-32 pb-20 px-6 max-w-xl mx-auto text-center space-y-8">
+        <h2 className="text-[10px] font-black uppercase tracking-[0.4em] text-[#00F3FF]">Session Complete</h2>
+        <div className="w-full grid grid-cols-3 gap-4">
+          <div className="bg-[#0a0a0a] border border-white/5 p-6 rounded-[2rem] space-y-2">
+            <p className="text-4xl font-black tracking-tighter">{summary.reviewed}</p>
+            <p className="text-[9px] font-black uppercase tracking-widest text-white/40">Reviewed</p>
+          </div>
+          <div className="bg-[#0a0a0a] border border-white/5 p-6 rounded-[2rem] space-y-2">
+            <p className="text-4xl font-black text-[#39FF14] tracking-tighter">{Math.round(summary.accuracy * 100)}%</p>
+            <p className="text-[9px] font-black uppercase tracking-widest text-white/40">Recalled</p>
+          </div>
+          <div className="bg-[#0a0a0a] border border-white/5 p-6 rounded-[2rem] space-y-2">
+            <p className="text-4xl font-black text-[#00F3FF] tracking-tighter">{Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, '0')}</p>
+            <p className="text-[9px] font-black uppercase tracking-widest text-white/40">Time Spent</p>
+          </div>
+        </div>
+        <div className="w-full grid grid-cols-4 gap-2">
+          {[Difficulty.AGAIN, Difficulty.HARD, Difficulty.GOOD, Difficulty.EASY].map((val) => (
+            <div key={val} className="bg-[#0a0a0a] border border-white/5 py-4 rounded-2xl space-y-1">
+              <p className="text-xl font-black">{summary.byRating[val]}</p>
+              <p className="text-[9px] font-black uppercase tracking-widest text-white/40">{Difficulty[val]}</p>
+              <p className="text-[9px] font-mono text-white/30">{summary.reviewed > 0 ? Math.round(summary.byRating[val] / summary.reviewed * 100) : 0}%</p>
+            </div>
+          ))}
+        </div>
+        {lapsedWords.length > 0 && (
+          <div className="w-full bg-[#0a0a0a] border border-red-500/10 p-6 rounded-[2rem] space-y-3">
+            <p className="text-[9px] font-black uppercase tracking-widest text-red-500/60">Lapsed · {lapsedWords.length}</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {lapsedWords.map(word => (
+                <span key={word} className="px-3 py-1 bg-red-500/10 rounded-lg text-xs text-red-400">{word}</span>
+              ))}
+            </div>
+          </div>
+        )}
+        {undoStack.length > 0 && (
+          <button onClick={handleUndo} className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors">Undo Last Rating (Z)</button>
+        )}
         <Link to="/" className="px-16 py-5 bg-white text-black font-black rounded-2xl uppercase tracking-widest text-[10px]">Back Home</Link>
       </div>
     );
   }
 
-  const currentCard = dueCards[currentIndex];
+  const currentItem = dueCards[currentIndex];
+  const currentCard = allCards.find(c => c.id === currentItem.cardId)!;
+  const currentSchedule = getTemplateCard(currentCard, currentItem.template);
+  const heardText = listeningText(currentCard, listening);
+  const needsAnswer = typedMode || currentItem.template === 'listening';
+  const answerByChoice = currentItem.template === 'listening' && listening.answer === 'choose';
+  // What each rating would schedule, computed without saving anything
+  const previewAt = Date.now();
+  const preview = previewReview(currentSchedule, previewAt, srsParams);
 
   return (
     <div className="min-h-screen pt-32 px-6 max-w-sm mx-auto flex flex-col items-center pb-20 relative">
+      {isEditing && (
+        <CardEditor
+          user={user}
+          card={currentCard}
+          existing={allCards}
+          onSaved={(saved) => {
+            setAllCards(prev => prev.map(c => c.id === saved.id ? saved : c));
+            setIsEditing(false);
+          }}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
+
       {isConfirmingDelete && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/90 backdrop-blur-md animate-in fade-in duration-300">
           <div className="bg-[#0a0a0a] border border-red-500/20 p-10 rounded-[2.5rem] max-w-xs w-full text-center shadow-2xl">
@@ -619,63 +2298,400 @@ const Study: React.FC<{ user: User }> = ({ user }) => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
             </svg>
           </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); setIsEditing(true); }}
+            className="p-2 text-white/40 hover:text-white transition-colors"
+            title="Edit Card"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+          </button>
           <span>Stack: {currentIndex + 1} / {dueCards.length}</span>
+          <button onClick={() => handleSetAside('bury')} className="p-2 text-white/40 hover:text-white transition-colors" title="Hide Until Tomorrow">Bury</button>
+          <button onClick={() => handleSetAside('suspend')} className="p-2 text-white/40 hover:text-white transition-colors" title="Hide Until Unsuspended">Suspend</button>
+          {undoStack.length > 0 && (
+            <button onClick={handleUndo} className="p-2 text-white/40 hover:text-white transition-colors" title="Undo Last Rating (Z)">Undo</button>
+          )}
         </div>
-        <span className="text-[#00F3FF]">Stage {currentCard.reps}</span>
+        <span className="text-[#00F3FF]">{currentCard.leech && <span className="text-red-400">Leech · </span>}{TEMPLATE_LABELS[currentItem.template]} · Stage {currentSchedule.reps}</span>
       </div>
-      <div onClick={() => setIsFlipped(!isFlipped)} className={`w-full aspect-[4/5] relative transition-all duration-700 cursor-pointer ${isFlipped ? '[transform:rotateY(180deg)]' : ''}`} style={{ transformStyle: 'preserve-3d' }}>
+      <div onClick={() => { if (!needsAnswer || grade) setIsFlipped(!isFlipped); }} className={`w-full aspect-[4/5] relative transition-all duration-700 cursor-pointer ${isFlipped ? '[transform:rotateY(180deg)]' : ''}`} style={{ transformStyle: 'preserve-3d' }}>
         <div className="absolute inset-0 bg-[#0a0a0a] border-2 border-white/5 rounded-[2.5rem] p-12 flex flex-col items-center justify-center [backface-visibility:hidden] shadow-2xl">
-          <div className="flex flex-col items-center space-y-4 mb-8">
-            <h3 className="text-5xl font-black text-white text-center">{currentCard.word}</h3>
-            <div className="flex items-center space-x-3">
-              <p className="text-[#00F3FF] font-mono text-sm tracking-widest">{currentCard.pronunciation}</p>
-              <button 
-                onClick={(e) => { e.stopPropagation(); playPronunciation(currentCard.word); }}
-                className="p-2 bg-white/5 rounded-full hover:bg-white/10 transition-colors text-[#00F3FF]"
+          {currentItem.template === 'recognition' && (
+            <>
+              <div className="flex flex-col items-center space-y-4 mb-8">
+                <h3 className="text-5xl font-black text-white text-center">{currentCard.word}</h3>
+                <div className="flex items-center space-x-3">
+                  <p className="text-[#00F3FF] font-mono text-sm tracking-widest">{currentCard.pronunciation}</p>
+                  <button 
+                    onClick={(e) => { e.stopPropagation(); speak(currentCard.word); }}
+                    className="p-2 bg-white/5 rounded-full hover:bg-white/10 transition-colors text-[#00F3FF]"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+              <div className="w-full bg-white/5 p-6 rounded-2xl border border-white/5">
+                <p className="text-white/60 text-center italic font-light leading-relaxed">"{currentCard.context}"</p>
+              </div>
+            </>
+          )}
+          {currentItem.template === 'reverse' && (
+            <div className="flex flex-col items-center space-y-6 text-center">
+              <p className="text-[9px] font-black uppercase tracking-[0.3em] text-white/30">Recall the English word</p>
+              <h3 className="text-4xl font-black text-white">{currentCard.meaning}</h3>
+              <span className="text-[9px] font-black bg-white/10 text-white/60 px-2 py-0.5 rounded tracking-widest uppercase">{currentCard.difficulty}</span>
+            </div>
+          )}
+          {currentItem.template === 'cloze' && (
+            <div className="w-full flex flex-col items-center space-y-6 text-center">
+              <p className="text-[9px] font-black uppercase tracking-[0.3em] text-white/30">Fill in the blank</p>
+              <div className="w-full bg-white/5 p-6 rounded-2xl border border-white/5">
+                <p className="text-white/80 text-lg font-light leading-relaxed">{clozeContext(currentCard)}</p>
+              </div>
+              <p className="text-white/40 text-sm">{currentCard.meaning}</p>
+            </div>
+          )}
+          {currentItem.template === 'listening' && (
+            <div className="flex flex-col items-center space-y-8 text-center">
+              <p className="text-[9px] font-black uppercase tracking-[0.3em] text-white/30">
+                {answerByChoice ? 'Pick the meaning' : `Type the ${heardText === currentCard.word ? 'word' : 'sentence'} you hear`}
+              </p>
+              <button
+                onClick={(e) => { e.stopPropagation(); speak(heardText); }}
+                className="w-24 h-24 bg-[#00F3FF]/10 border border-[#00F3FF]/30 rounded-full flex items-center justify-center text-[#00F3FF] hover:bg-[#00F3FF]/20 transition-all"
+                aria-label="Replay"
               >
-                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
-                </svg>
+                <svg className="w-10 h-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); speak(heardText, 0.7); }}
+                className="px-4 py-2 border border-white/10 rounded-lg text-[10px] font-black uppercase tracking-[0.2em] text-white/60 hover:bg-white/5 transition-all"
+              >
+                Slow
               </button>
             </div>
-          </div>
-          <div className="w-full bg-white/5 p-6 rounded-2xl border border-white/5">
-            <p className="text-white/60 text-center italic font-light leading-relaxed">"{currentCard.context}"</p>
-          </div>
+          )}
         </div>
         <div className="absolute inset-0 bg-[#00F3FF] text-black rounded-[2.5rem] p-12 flex flex-col items-center justify-center [backface-visibility:hidden] [transform:rotateY(180deg)] shadow-xl">
-          <div className="w-full text-center">
-            <h4 className="text-4xl font-black uppercase tracking-tight">{currentCard.vietnameseMeaning}</h4>
-          </div>
+          {currentItem.template === 'recognition' ? (
+            <div className="w-full text-center">
+              <h4 className="text-4xl font-black uppercase tracking-tight">{currentCard.meaning}</h4>
+            </div>
+          ) : (
+            <div className="w-full text-center space-y-4">
+              <h4 className="text-4xl font-black tracking-tight">{currentCard.word}</h4>
+              <p className="font-mono text-sm tracking-widest opacity-60">{currentCard.pronunciation}</p>
+              <p className="italic font-light leading-relaxed opacity-70">"{currentCard.context}"</p>
+              {currentItem.template === 'listening' && <p className="font-black uppercase tracking-tight">{currentCard.meaning}</p>}
+            </div>
+          )}
+          {currentCard.mnemonic && <p className="mt-6 text-sm text-center font-light opacity-70">{currentCard.mnemonic}</p>}
         </div>
       </div>
-      <div className="w-full grid grid-cols-4 gap-4 mt-16 transition-all duration-700">
-        {[Difficulty.AGAIN, Difficulty.HARD, Difficulty.GOOD, Difficulty.EASY].map((val) => (
-          <button key={val} onClick={() => handleRate(val)} className="py-6 border border-white/10 bg-white/5 rounded-2xl text-[10px] font-black uppercase active:scale-95 transition-all hover:bg-white/10">
-            {Difficulty[val]}
-          </button>
-        ))}
+      {answerByChoice && !grade && (
+        <div className="w-full grid grid-cols-1 gap-3 mt-12">
+          {choices.map(meaning => (
+            <button key={meaning} onClick={() => handleChoose(meaning)} className="py-4 px-5 bg-[#0a0a0a] border border-white/10 rounded-2xl text-left text-white/80 hover:border-[#00F3FF]/50 hover:text-white transition-all">
+              {meaning}
+            </button>
+          ))}
+        </div>
+      )}
+      {needsAnswer && !answerByChoice && !grade && (
+        <form onSubmit={(e) => { e.preventDefault(); handleCheckAnswer(); }} className="w-full flex gap-3 mt-12">
+          <input
+            autoFocus
+            value={typedAnswer}
+            onChange={e => setTypedAnswer(e.target.value)}
+            placeholder={currentItem.template === 'recognition' ? `${languageName(currentCard.meaningLanguage)} meaning...` : currentItem.template === 'listening' ? 'What did you hear?' : 'English word...'}
+            className="flex-grow bg-[#0a0a0a] border border-white/10 rounded-2xl p-5 text-white focus:outline-none focus:border-[#00F3FF]/50 transition-all font-light"
+          />
+          <button type="submit" className="px-6 bg-white text-black font-black uppercase tracking-[0.2em] text-[10px] rounded-2xl hover:bg-[#00F3FF] transition-all">Check</button>
+        </form>
+      )}
+      {grade && (
+        <div className="w-full mt-12 bg-[#0a0a0a] border border-white/10 rounded-2xl p-5 space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <p className={`text-[10px] font-black uppercase tracking-[0.2em] ${grade.correct ? 'text-[#39FF14]' : 'text-red-500'}`}>
+              {grade.correct ? (grade.exact ? 'Correct' : grade.distance === 0 ? 'Correct · check the accents' : 'Almost · small typo') : 'Incorrect'}
+            </p>
+            <button autoFocus onClick={() => handleRate(grade.suggested)} disabled={isAssessing} className="px-4 py-2 bg-[#00F3FF]/10 border border-[#00F3FF]/20 text-[#00F3FF] font-black uppercase tracking-[0.2em] text-[9px] rounded-lg hover:bg-[#00F3FF]/20 transition-all disabled:opacity-30">
+              Accept {Difficulty[grade.suggested]}
+            </button>
+          </div>
+          <p className="text-lg font-mono tracking-wide break-words">
+            {grade.diff.map((part, i) => (
+              <span key={i} className={part.type === 'equal' ? 'text-white' : part.type === 'missing' ? 'text-[#39FF14] underline' : 'text-red-500 line-through'}>{part.text}</span>
+            ))}
+          </p>
+        </div>
+      )}
+      {(!needsAnswer || grade) && (
+        <div className={`w-full grid grid-cols-4 gap-4 ${needsAnswer ? 'mt-6' : 'mt-16'} transition-all duration-700`}>
+          {[Difficulty.AGAIN, Difficulty.HARD, Difficulty.GOOD, Difficulty.EASY].map((val) => (
+            <button key={val} onClick={() => handleRate(val)} disabled={isAssessing} title={`Shortcut: ${val}`} className={`py-5 border rounded-2xl text-[10px] font-black uppercase active:scale-95 transition-all space-y-1 disabled:opacity-30 ${grade?.suggested === val ? 'border-[#00F3FF]/60 bg-[#00F3FF]/10 text-[#00F3FF]' : 'border-white/10 bg-white/5 hover:bg-white/10'}`}>
+              <span className="block">{Difficulty[val]}</span>
+              <span className="block font-mono text-[9px] text-white/40">{formatInterval(preview[val].due - previewAt)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="hidden md:block mt-6 text-[9px] font-mono uppercase tracking-widest text-white/20">Space flip · 1–4 rate · Z undo · R replay</p>
+      {isFlipped && (
+        <SpeakPanel card={currentCard} onSaved={(saved) => setAllCards(prev => prev.map(c => c.id === saved.id ? saved : c))} onAssessingChange={setIsAssessing} />
+      )}
+    </div>
+  );
+};
+
+const Stats: React.FC<{ user: User }> = ({ user }) => {
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [logs, setLogs] = useState<ReviewLog[]>([]);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [cardData, logData] = await Promise.all([
+          repository.listCards(user.id),
+          repository.listReviewLogs(user.id)
+        ]);
+        setCards(cardData);
+        setLogs(logData);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    fetchData();
+  }, [user.id]);
+
+  const forecast = getDueForecast(cards, 30);
+  const maxForecast = Math.max(1, ...forecast.map(d => d.count));
+  const calendar = getActivityCalendar(logs, 26);
+  const maxActivity = Math.max(1, ...calendar.flat().map(d => d?.count || 0));
+  const retention = getRetentionByState(logs, Date.now() - 30 * 24 * 60 * 60 * 1000);
+  const byState = countBy(cards, c => c.state);
+  const byDifficulty = countBy(cards, c => c.difficulty);
+  const sources = getSourceBreakdown(cards);
+
+  const heatColor = (count: number) => {
+    if (count === 0) return 'bg-white/5';
+    const ratio = count / maxActivity;
+    if (ratio > 0.75) return 'bg-[#39FF14]';
+    if (ratio > 0.5) return 'bg-[#39FF14]/70';
+    if (ratio > 0.25) return 'bg-[#39FF14]/40';
+    return 'bg-[#39FF14]/20';
+  };
+
+  return (
+    <div className="min-h-screen pt-36 px-8 max-w-5xl mx-auto pb-32 space-y-16">
+      <div>
+        <h2 className="text-5xl font-black tracking-tighter uppercase">Stats</h2>
+        <p className="text-[#00F3FF] text-xs font-mono mt-3 uppercase tracking-[0.2em] font-bold">{logs.length} Reviews Logged</p>
       </div>
+
+      <section className="space-y-6">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-white/30">30-Day Forecast</h3>
+        <div className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl">
+          <div className="flex items-end gap-1 h-40">
+            {forecast.map((day, i) => (
+              <div key={day.date} className="flex-1 flex flex-col items-center justify-end h-full group" title={`${new Date(day.date).toLocaleDateString()}: ${day.count}`}>
+                <div className={`w-full rounded-t ${i === 0 ? 'bg-[#00F3FF]' : 'bg-[#00F3FF]/40 group-hover:bg-[#00F3FF]/70'} transition-all`} style={{ height: `${(day.count / maxForecast) * 100}%` }}></div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-3 text-[9px] font-mono text-white/30 uppercase tracking-widest">
+            <span>Today ({forecast[0].count})</span>
+            <span>+30d</span>
+          </div>
+        </div>
+      </section>
+
+      <section className="space-y-6">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-white/30">Review Activity</h3>
+        <div className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl overflow-x-auto">
+          <div className="flex gap-1">
+            {calendar.map((week, w) => (
+              <div key={w} className="flex flex-col gap-1">
+                {week.map((day, d) => day ? (
+                  <div key={d} className={`w-3 h-3 rounded-sm ${heatColor(day.count)}`} title={`${new Date(day.date).toLocaleDateString()}: ${day.count} reviews`}></div>
+                ) : (
+                  <div key={d} className="w-3 h-3"></div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      <section className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl space-y-4">
+          <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-white/30">Retention · 30d</h3>
+          {retention.map(r => (
+            <div key={r.state} className="flex justify-between items-baseline">
+              <span className="text-[10px] font-black uppercase tracking-widest text-white/60">{CARD_STATE_LABELS[r.state]}</span>
+              <span className="text-2xl font-black text-[#39FF14] tracking-tighter">{r.retention === null ? '—' : `${Math.round(r.retention * 100)}%`}<span className="text-[9px] font-mono text-white/30 ml-2">{r.total}</span></span>
+            </div>
+          ))}
+        </div>
+        <div className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl space-y-4">
+          <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-white/30">Cards by State</h3>
+          {[CardState.NEW, CardState.LEARNING, CardState.REVIEW, CardState.RELEARNING].map(state => (
+            <div key={state} className="flex justify-between items-baseline">
+              <span className="text-[10px] font-black uppercase tracking-widest text-white/60">{CARD_STATE_LABELS[state]}</span>
+              <span className="text-2xl font-black text-[#00F3FF] tracking-tighter">{byState[state] || 0}</span>
+            </div>
+          ))}
+        </div>
+        <div className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl space-y-4">
+          <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-white/30">Cards by Level</h3>
+          {CEFR_LEVELS.filter(level => byDifficulty[level]).map(level => (
+            <div key={level} className="flex justify-between items-baseline">
+              <span className="text-[10px] font-black uppercase tracking-widest text-white/60">{level}</span>
+              <span className="text-2xl font-black text-white tracking-tighter">{byDifficulty[level] || 0}</span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-6">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-white/30">By Source</h3>
+        <div className="bg-[#0a0a0a] border border-white/5 rounded-3xl divide-y divide-white/5">
+          {sources.length === 0 && <p className="p-8 text-white/30 text-sm font-light">No cards yet.</p>}
+          {sources.map(src => (
+            <div key={src.source} className="p-6 flex items-center justify-between gap-6">
+              <p className="text-white/80 font-semibold truncate">{src.source}</p>
+              <div className="flex gap-6 text-[9px] font-black uppercase tracking-widest text-white/40 shrink-0">
+                <span><span className="text-white text-sm mr-1">{src.total}</span>Total</span>
+                <span><span className="text-[#39FF14] text-sm mr-1">{src.mature}</span>Mature</span>
+                <span><span className="text-[#00F3FF] text-sm mr-1">{src.due}</span>Due</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
     </div>
   );
 };
 
 // --- App Root ---
 
+const chipClass = (active: boolean) =>
+  `py-3 px-4 border rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${active ? 'border-[#00F3FF]/50 text-[#00F3FF] bg-[#00F3FF]/10' : 'border-white/10 text-white/40 hover:bg-white/5'}`;
+
+const Settings: React.FC<{ user: User }> = ({ user }) => {
+  const [profile, setProfile] = useState<LearningProfile>(() => loadProfile(user.id));
+  const [domainInput, setDomainInput] = useState('');
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.PROFILE(user.id), JSON.stringify(profile));
+  }, [profile, user.id]);
+
+  const update = (patch: Partial<LearningProfile>) => setProfile(prev => ({ ...prev, ...patch }));
+
+  // Picking a bound past the other one drags the other along, so the band never inverts
+  const setBound = (bound: 'cefrMin' | 'cefrMax', level: CefrLevel) => setProfile(prev => {
+    const next = { ...prev, [bound]: level };
+    const inverted = CEFR_LEVELS.indexOf(next.cefrMin) > CEFR_LEVELS.indexOf(next.cefrMax);
+    return inverted ? { ...next, cefrMin: level, cefrMax: level } : next;
+  });
+
+  const toggleDomain = (domain: string) => update({
+    domains: profile.domains.includes(domain) ? profile.domains.filter(d => d !== domain) : [...profile.domains, domain],
+  });
+
+  const addDomain = () => {
+    const domain = domainInput.trim();
+    if (domain && !profile.domains.some(d => d.toLowerCase() === domain.toLowerCase())) update({ domains: [...profile.domains, domain] });
+    setDomainInput('');
+  };
+
+  const domainOptions = [...SUGGESTED_DOMAINS, ...profile.domains.filter(d => !SUGGESTED_DOMAINS.includes(d))];
+
+  return (
+    <div className="min-h-screen pt-32 px-6 max-w-3xl mx-auto pb-32 space-y-12">
+      <div>
+        <h2 className="text-5xl font-black tracking-tighter uppercase">Learning Profile</h2>
+        <p className="text-[#39FF14] text-xs font-mono mt-3 uppercase tracking-[0.2em] font-bold">
+          {cefrRange(profile).join(' · ')} · Meanings in {languageName(profile.nativeLanguage)}
+        </p>
+      </div>
+
+      <section className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl space-y-4">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-white/30">Native Language</h3>
+        <select value={profile.nativeLanguage} onChange={e => update({ nativeLanguage: e.target.value })} className="w-full bg-black border border-white/10 rounded-xl p-4 text-white focus:outline-none focus:border-[#00F3FF]/50">
+          {Object.entries(LANGUAGES).map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+        </select>
+        <p className="text-white/30 text-xs font-light">New cards get meanings in this language. Existing cards keep the language they were made in.</p>
+      </section>
+
+      <section className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl space-y-4">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-white/30">CEFR Range</h3>
+        {(['cefrMin', 'cefrMax'] as const).map(bound => (
+          <div key={bound} className="flex items-center gap-4">
+            <span className="w-12 text-[9px] font-black uppercase tracking-widest text-white/40">{bound === 'cefrMin' ? 'From' : 'To'}</span>
+            <div className="grid grid-cols-6 gap-2 flex-1">
+              {CEFR_LEVELS.map(level => (
+                <button key={level} onClick={() => setBound(bound, level)} className={chipClass(profile[bound] === level)}>{level}</button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </section>
+
+      <section className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl space-y-4">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-white/30">Preferred Domains</h3>
+        <div className="flex flex-wrap gap-2">
+          {domainOptions.map(domain => (
+            <button key={domain} onClick={() => toggleDomain(domain)} className={chipClass(profile.domains.includes(domain))}>{domain}</button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={domainInput}
+            onChange={e => setDomainInput(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addDomain()}
+            placeholder="Add a domain..."
+            className="flex-1 bg-black border border-white/10 p-3 rounded-xl text-white focus:outline-none focus:border-[#00F3FF]/50 text-sm"
+          />
+          <button onClick={addDomain} disabled={!domainInput.trim()} className="px-6 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-white/60 hover:bg-white/5 transition-all disabled:opacity-30">Add</button>
+        </div>
+        <p className="text-white/30 text-xs font-light">With none selected, words are picked from any topic.</p>
+      </section>
+
+      <section className="bg-[#0a0a0a] border border-white/5 p-8 rounded-3xl space-y-4">
+        <h3 className="text-[10px] font-black uppercase tracking-[0.4em] text-white/30">Extraction</h3>
+        <div className="flex items-center gap-4">
+          <span className="text-[9px] font-black uppercase tracking-widest text-white/40 w-32">Words per Article</span>
+          <input
+            type="range"
+            min={MIN_WORDS_PER_ARTICLE}
+            max={MAX_WORDS_PER_ARTICLE}
+            value={profile.wordsPerArticle}
+            onChange={e => update({ wordsPerArticle: Number(e.target.value) })}
+            className="flex-1 accent-[#00F3FF]"
+          />
+          <span className="text-2xl font-black text-[#00F3FF] tracking-tighter w-8 text-right">{profile.wordsPerArticle}</span>
+        </div>
+        <button onClick={() => update({ includePhrases: !profile.includePhrases })} className={`w-full ${chipClass(profile.includePhrases)}`}>
+          Phrasal Verbs &amp; Idioms: {profile.includePhrases ? 'On' : 'Off'}
+        </button>
+      </section>
+    </div>
+  );
+};
+
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
-      if (firebaseUser) {
-        setUser({
-          id: firebaseUser.uid,
-          email: firebaseUser.email || ""
-        });
-      } else {
-        setUser(null);
-      }
+    const unsubscribe = authService.onAuthStateChanged((authUser) => {
+      setUser(authUser);
+      repository.setSrsParams(authUser ? loadSrsParams(authUser.id) : DEFAULT_SRS_PARAMS);
+      repository.setActiveUser(authUser?.id ?? null);
+      selectProvider(authUser ? localStorage.getItem(STORAGE_KEYS.AI_PROVIDER(authUser.id)) : null);
       setLoading(false);
     });
     return () => unsubscribe();
@@ -683,7 +2699,7 @@ const App: React.FC = () => {
 
   const handleLogout = async () => {
     try {
-      await signOut(auth);
+      await authService.signOut();
     } catch (err) {
       console.error("Logout failed", err);
     }
@@ -691,7 +2707,7 @@ const App: React.FC = () => {
 
   if (loading) return <LoadingOverlay message="Authenticating..." />;
 
-  if (!isFirebaseConfigured) {
+  if (!isBackendConfigured) {
     return (
       <div className="min-h-screen bg-black text-white flex flex-col items-center justify-center p-8 text-center">
         <div className="max-w-md space-y-8">
@@ -713,6 +2729,9 @@ const App: React.FC = () => {
           <p className="text-[9px] font-black uppercase tracking-[0.2em] text-white/30">
             After setting these, the app will automatically initialize.
           </p>
+          <p className="text-[9px] font-black uppercase tracking-[0.2em] text-white/30">
+            Self-hosting? Set <span className="text-[#00F3FF]">VITE_STORAGE_BACKEND=server</span> and run <span className="text-[#00F3FF]">npm run server</span> instead.
+          </p>
         </div>
       </div>
     );
@@ -728,6 +2747,11 @@ const App: React.FC = () => {
             <Route path="/" element={user ? <Home user={user} /> : <Navigate to="/auth" />} />
             <Route path="/study" element={user ? <Study user={user} /> : <Navigate to="/auth" />} />
             <Route path="/bank" element={user ? <Bank user={user} /> : <Navigate to="/auth" />} />
+            <Route path="/leeches" element={user ? <Leeches user={user} /> : <Navigate to="/auth" />} />
+            <Route path="/library" element={user ? <Library user={user} /> : <Navigate to="/auth" />} />
+            <Route path="/read/:articleId" element={user ? <Reader user={user} /> : <Navigate to="/auth" />} />
+            <Route path="/stats" element={user ? <Stats user={user} /> : <Navigate to="/auth" />} />
+            <Route path="/settings" element={user ? <Settings user={user} /> : <Navigate to="/auth" />} />
           </Routes>
         </main>
       </div>
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { normalizeWord } from '../services/lemmaService';
+
+const DATABASE_PATH = process.env.DATABASE_PATH || path.resolve('data', 'lingoflow.db');
+
+fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+
+export const db = new Database(DATABASE_PATH);
+db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
+
+// Cards and logs are stored as JSON documents so the schema does not have to
+// track every field the client adds; only what the server filters on is a column.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS flashcards (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS flashcards_user ON flashcards(user_id);
+
+  CREATE TABLE IF NOT EXISTS review_logs (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    card_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    reviewed_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS review_logs_user ON review_logs(user_id);
+
+  CREATE TABLE IF NOT EXISTS articles (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS articles_user ON articles(user_id);
+
+  CREATE TABLE IF NOT EXISTS study_sessions (
+    user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`);
+
+// Word-family key for duplicate lookups, added after the first release; older rows are backfilled
+const cardColumns = db.prepare('PRAGMA table_info(flashcards)').all() as { name: string }[];
+if (!cardColumns.some((column) => column.name === 'normalized_word')) {
+  db.exec('ALTER TABLE flashcards ADD COLUMN normalized_word TEXT');
+  const rows = db.prepare('SELECT id, data FROM flashcards').all() as { id: string; data: string }[];
+  const update = db.prepare('UPDATE flashcards SET normalized_word = ? WHERE id = ?');
+  db.transaction(() => rows.forEach((row) => update.run(normalizeWord(JSON.parse(row.data).word || ''), row.id)))();
+}
+db.exec('CREATE INDEX IF NOT EXISTS flashcards_user_word ON flashcards(user_id, normalized_word)');
@@ -0,0 +1,233 @@
+import express, { Request, Response, NextFunction } from 'express';
+import cors from 'cors';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { db } from './db';
+import { normalizeWord } from '../services/lemmaService';
+
+// --- Self-hosted LingoFlow backend ---
+// Mirrors the Firestore collections used by the client: flashcards, reviewLogs and articles, scoped per user.
+
+const JWT_SECRET = process.env.JWT_SECRET;
+const PORT = Number(process.env.PORT) || 3001;
+const TOKEN_TTL = '30d';
+
+if (!JWT_SECRET) {
+  console.error('JWT_SECRET must be set to run the LingoFlow server.');
+  process.exit(1);
+}
+
+interface AuthedRequest extends Request {
+  userId?: string;
+}
+
+const app = express();
+app.use(cors());
+app.use(express.json({ limit: '20mb' }));
+
+const issueToken = (userId: string) => jwt.sign({ sub: userId }, JWT_SECRET, { expiresIn: TOKEN_TTL });
+
+const requireAuth = (req: AuthedRequest, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+  if (!token) return res.status(401).json({ error: 'Missing token.' });
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    req.userId = payload.sub;
+    next();
+  } catch {
+    res.status(401).json({ error: 'Session expired. Please log in again.' });
+  }
+};
+
+// --- Auth ---
+
+app.post('/api/auth/register', async (req, res) => {
+  const { email, password } = req.body || {};
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || password.length < 6) {
+    return res.status(400).json({ error: 'Email and a password of at least 6 characters are required.' });
+  }
+  if (db.prepare('SELECT 1 FROM users WHERE email = ?').get(email)) {
+    return res.status(409).json({ error: 'An account with this email already exists.' });
+  }
+  const id = randomUUID();
+  const passwordHash = await bcrypt.hash(password, 10);
+  db.prepare('INSERT INTO users (id, email, password_hash, created_at) VALUES (?, ?, ?, ?)').run(id, email, passwordHash, Date.now());
+  res.status(201).json({ user: { id, email }, token: issueToken(id) });
+});
+
+app.post('/api/auth/login', async (req, res) => {
+  const { email, password } = req.body || {};
+  if (typeof email !== 'string' || typeof password !== 'string') {
+    return res.status(400).json({ error: 'Email and password are required.' });
+  }
+  const row = db.prepare('SELECT id, email, password_hash FROM users WHERE email = ?').get(email) as
+    { id: string; email: string; password_hash: string } | undefined;
+  if (!row || !(await bcrypt.compare(password, row.password_hash))) {
+    return res.status(401).json({ error: 'Invalid email or password.' });
+  }
+  res.json({ user: { id: row.id, email: row.email }, token: issueToken(row.id) });
+});
+
+app.get('/api/auth/me', requireAuth, (req: AuthedRequest, res) => {
+  const row = db.prepare('SELECT id, email FROM users WHERE id = ?').get(req.userId) as { id: string; email: string } | undefined;
+  if (!row) return res.status(401).json({ error: 'Account no longer exists.' });
+  res.json({ user: row });
+});
+
+// --- Flashcards ---
+
+// Only updates a row the caller already owns, so one user cannot overwrite another's card by id
+const upsertCard = db.prepare(`
+  INSERT INTO flashcards (id, user_id, data, updated_at, normalized_word) VALUES (@id, @userId, @data, @updatedAt, @normalizedWord)
+  ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at, normalized_word = excluded.normalized_word
+  WHERE flashcards.user_id = excluded.user_id
+`);
+
+const saveCard = (userId: string, card: any) => {
+  if (!card || typeof card.id !== 'string') throw new Error('Card is missing an id.');
+  // The key is derived here rather than trusted from the client, so every row stays indexed
+  const owned = { ...card, userId, normalizedWord: normalizeWord(card.word || '') };
+  upsertCard.run({ id: card.id, userId, data: JSON.stringify(owned), updatedAt: owned.updatedAt || Date.now(), normalizedWord: owned.normalizedWord });
+};
+
+const saveCards = db.transaction((userId: string, cards: any[]) => cards.forEach((card) => saveCard(userId, card)));
+
+app.get('/api/cards', requireAuth, (req: AuthedRequest, res) => {
+  const rows = db.prepare('SELECT data FROM flashcards WHERE user_id = ?').all(req.userId) as { data: string }[];
+  res.json(rows.map((row) => JSON.parse(row.data)));
+});
+
+app.put('/api/cards', requireAuth, (req: AuthedRequest, res) => {
+  const cards = req.body?.cards;
+  if (!Array.isArray(cards)) return res.status(400).json({ error: 'Expected { cards: [] }.' });
+  saveCards(req.userId!, cards);
+  res.status(204).end();
+});
+
+app.post('/api/cards/lookup', requireAuth, (req: AuthedRequest, res) => {
+  const words = req.body?.words;
+  if (!Array.isArray(words)) return res.status(400).json({ error: 'Expected { words: [] }.' });
+  const lookup = db.prepare('SELECT data FROM flashcards WHERE user_id = ? AND normalized_word = ?');
+  const rows = Array.from(new Set(words.map(String))).flatMap((word) => lookup.all(req.userId, word) as { data: string }[]);
+  res.json(rows.map((row) => JSON.parse(row.data)));
+});
+
+app.put('/api/cards/:id', requireAuth, (req: AuthedRequest, res) => {
+  saveCard(req.userId!, { ...req.body, id: req.params.id });
+  res.status(204).end();
+});
+
+app.delete('/api/cards/:id', requireAuth, (req: AuthedRequest, res) => {
+  db.prepare('DELETE FROM flashcards WHERE id = ? AND user_id = ?').run(req.params.id, req.userId);
+  res.status(204).end();
+});
+
+// --- Reviews ---
+
+// Same ownership rule as flashcards: a log id held by another user is left alone
+const insertLog = db.prepare(`
+  INSERT INTO review_logs (id, user_id, card_id, data, reviewed_at) VALUES (@id, @userId, @cardId, @data, @reviewedAt)
+  ON CONFLICT(id) DO UPDATE SET card_id = excluded.card_id, data = excluded.data, reviewed_at = excluded.reviewed_at
+  WHERE review_logs.user_id = excluded.user_id
+`);
+
+const saveLog = (userId: string, log: any) => {
+  if (!log || typeof log.id !== 'string' || typeof log.cardId !== 'string') throw new Error('Review log is missing an id or cardId.');
+  const owned = { ...log, userId };
+  insertLog.run({ id: log.id, userId, cardId: log.cardId, data: JSON.stringify(owned), reviewedAt: log.reviewedAt || Date.now() });
+};
+
+const saveLogs = db.transaction((userId: string, logs: any[]) => logs.forEach((log) => saveLog(userId, log)));
+
+const recordReview = db.transaction((userId: string, card: any, log: any) => {
+  saveCard(userId, card);
+  saveLog(userId, { ...log, cardId: card.id });
+});
+
+const undoReview = db.transaction((userId: string, card: any, logId: string) => {
+  saveCard(userId, card);
+  db.prepare('DELETE FROM review_logs WHERE id = ? AND user_id = ?').run(logId, userId);
+});
+
+app.get('/api/review-logs', requireAuth, (req: AuthedRequest, res) => {
+  const rows = db.prepare('SELECT data FROM review_logs WHERE user_id = ? ORDER BY reviewed_at').all(req.userId) as { data: string }[];
+  res.json(rows.map((row) => JSON.parse(row.data)));
+});
+
+app.put('/api/review-logs', requireAuth, (req: AuthedRequest, res) => {
+  const logs = req.body?.logs;
+  if (!Array.isArray(logs)) return res.status(400).json({ error: 'Expected { logs: [] }.' });
+  saveLogs(req.userId!, logs);
+  res.status(204).end();
+});
+
+app.post('/api/reviews', requireAuth, (req: AuthedRequest, res) => {
+  const { card, log } = req.body || {};
+  if (!card?.id || !log?.id) return res.status(400).json({ error: 'Expected { card, log }.' });
+  recordReview(req.userId!, card, log);
+  res.status(204).end();
+});
+
+app.post('/api/reviews/undo', requireAuth, (req: AuthedRequest, res) => {
+  const { card, logId } = req.body || {};
+  if (!card?.id || typeof logId !== 'string') return res.status(400).json({ error: 'Expected { card, logId }.' });
+  undoReview(req.userId!, card, logId);
+  res.status(204).end();
+});
+
+// --- Articles ---
+
+const upsertArticle = db.prepare(`
+  INSERT INTO articles (id, user_id, data, updated_at) VALUES (@id, @userId, @data, @updatedAt)
+  ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+  WHERE articles.user_id = excluded.user_id
+`);
+
+app.get('/api/articles', requireAuth, (req: AuthedRequest, res) => {
+  const rows = db.prepare('SELECT data FROM articles WHERE user_id = ?').all(req.userId) as { data: string }[];
+  res.json(rows.map((row) => JSON.parse(row.data)));
+});
+
+app.put('/api/articles/:id', requireAuth, (req: AuthedRequest, res) => {
+  const owned = { ...req.body, id: req.params.id, userId: req.userId };
+  upsertArticle.run({ id: owned.id, userId: req.userId, data: JSON.stringify(owned), updatedAt: owned.updatedAt || Date.now() });
+  res.status(204).end();
+});
+
+app.delete('/api/articles/:id', requireAuth, (req: AuthedRequest, res) => {
+  db.prepare('DELETE FROM articles WHERE id = ? AND user_id = ?').run(req.params.id, req.userId);
+  res.status(204).end();
+});
+
+// --- Study Sessions ---
+
+app.get('/api/study-session', requireAuth, (req: AuthedRequest, res) => {
+  const row = db.prepare('SELECT data FROM study_sessions WHERE user_id = ?').get(req.userId) as { data: string } | undefined;
+  res.json(row ? JSON.parse(row.data) : null);
+});
+
+app.put('/api/study-session', requireAuth, (req: AuthedRequest, res) => {
+  if (!Array.isArray(req.body?.queue)) return res.status(400).json({ error: 'Expected a session with a queue.' });
+  const owned = { ...req.body, userId: req.userId };
+  db.prepare(`
+    INSERT INTO study_sessions (user_id, data, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(user_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+  `).run(req.userId, JSON.stringify(owned), owned.updatedAt || Date.now());
+  res.status(204).end();
+});
+
+app.delete('/api/study-session', requireAuth, (req: AuthedRequest, res) => {
+  db.prepare('DELETE FROM study_sessions WHERE user_id = ?').run(req.userId);
+  res.status(204).end();
+});
+
+app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+  console.error(err);
+  res.status(500).json({ error: err.message || 'Internal server error.' });
+});
+
+app.listen(PORT, () => {
+  console.log(`LingoFlow server listening on http://localhost:${PORT}`);
+});
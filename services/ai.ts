@@ -0,0 +1,43 @@
+import { AIProvider, AIProviderId } from './aiProvider';
+import { geminiProvider } from './geminiProvider';
+import { openaiProvider, isOpenAIConfigured } from './openaiProvider';
+import { mockProvider } from './mockProvider';
+import { withValidation } from './aiValidation';
+
+// VITE_AI_PROVIDER picks the default model for the build; a user may switch to any other
+// provider that is configured, which App restores on login.
+
+// Every provider's structured output goes through the same checks, the mock's included
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: withValidation(geminiProvider),
+  openai: withValidation(openaiProvider),
+  mock: withValidation(mockProvider),
+};
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Mock (offline)',
+};
+
+const envProvider = import.meta.env.VITE_AI_PROVIDER as AIProviderId | undefined;
+
+export const defaultProviderId: AIProviderId = envProvider && envProvider in PROVIDERS ? envProvider : 'gemini';
+
+// The mock is offered in development builds and wherever it was chosen as the default
+export const availableProviders: AIProviderId[] = (Object.keys(PROVIDERS) as AIProviderId[]).filter((id) =>
+  id === defaultProviderId ||
+  (id === 'gemini' && !!process.env.API_KEY) ||
+  (id === 'openai' && isOpenAIConfigured) ||
+  (id === 'mock' && import.meta.env.DEV));
+
+let active: AIProvider = PROVIDERS[defaultProviderId];
+
+/** Switches every later AI call to `id`; unknown or unavailable ids fall back to the default. */
+export const selectProvider = (id: string | null) => {
+  const chosen = availableProviders.find((p) => p === id) ?? defaultProviderId;
+  active = PROVIDERS[chosen];
+  return chosen;
+};
+
+export const currentProvider = () => active;
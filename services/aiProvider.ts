@@ -0,0 +1,124 @@
+import { CefrLevel, LearningProfile, PronunciationIssue } from '../types';
+import { cefrRange, languageName } from './profileService';
+
+// --- AI Abstraction ---
+// Pages and services talk to this interface only; the concrete model is picked in ai.ts.
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export type EditableCardField = 'pronunciation' | 'meaning' | 'context' | 'mnemonic';
+
+export interface ExtractedWord {
+  word: string;
+  pronunciation: string;
+  meaning: string; // In the profile's native language
+  context: string;
+  difficulty: CefrLevel;
+}
+
+export interface RejectedWord {
+  word: string;
+  reason: string;
+}
+
+export interface ProcessedArticle {
+  title: string;
+  author: string;
+  summary: string;
+  words: ExtractedWord[];
+  url: string;
+  rejected?: RejectedWord[]; // Entries dropped by validation, see aiValidation
+}
+
+export interface SuggestedMaterial {
+  title: string;
+  summary: string;
+  url: string;
+  source: string;
+}
+
+export interface PronunciationResult {
+  score: number;
+  transcript: string;
+  issues: PronunciationIssue[];
+}
+
+// 'rejected' is an answer that failed a check asking again would fail the same way
+export type AIErrorKind = 'request' | 'malformed' | 'empty' | 'rejected' | 'unsupported';
+
+/** A failure the UI can show as is: `message` is written for the learner, `kind` says what went wrong. */
+export class AIError extends Error {
+  constructor(message: string, readonly kind: AIErrorKind, readonly rejected: RejectedWord[] = []) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+export const aiErrorMessage = (err: unknown, fallback: string) => (err instanceof AIError ? err.message : fallback);
+
+export interface AIProvider {
+  id: AIProviderId;
+  /** Voice used by `synthesizeSpeech`; part of the audio cache key. */
+  voice: string;
+  /** `url` is recorded on the result when `content` is pasted text rather than a link. */
+  processArticle(content: string, profile: LearningProfile, url?: string): Promise<ProcessedArticle>;
+  /** Single-word variant of `processArticle`, for a word or phrase picked in the reader. */
+  processWord(word: string, profile: LearningProfile, context?: string): Promise<ExtractedWord>;
+  summarizeArticle(content: string): Promise<string>;
+  getSuggestedMaterial(): Promise<SuggestedMaterial[]>;
+  /** `language` is the ISO code a regenerated meaning is written in. */
+  regenerateCardField(word: string, field: EditableCardField, language: string, context?: string): Promise<string>;
+  /** Retrieves the body of an article so it can be opened in the reader. */
+  fetchArticleText(url: string): Promise<string>;
+  /** Raw 24kHz mono 16-bit PCM of `text`, base64-encoded. Playback and caching live in audioService. */
+  synthesizeSpeech(text: string): Promise<string>;
+  /** Scores a recording of the learner saying `text` against its IPA. */
+  assessPronunciation(audioBase64: string, mimeType: string, text: string, ipa: string): Promise<PronunciationResult>;
+}
+
+// --- Shared Prompts ---
+// Every model-backed provider asks the same questions, so switching models changes quality, not behaviour.
+
+export const isUrlSource = (content: string) => content.trim().startsWith('http');
+
+const FIELD_INSTRUCTIONS: Record<EditableCardField, (language: string) => string> = {
+  pronunciation: () => 'the IPA pronunciation, wrapped in slashes',
+  meaning: (language) => `a concise ${languageName(language)} meaning (a few words, the sense used in the context if one is given)`,
+  context: () => 'one natural English example sentence that uses the word exactly as written',
+  mnemonic: (language) => `a one-sentence memory hook in ${languageName(language)} that ties the sound or parts of the word to its meaning`,
+};
+
+/** "B2, C1 or C2" */
+export const describeLevels = (levels: CefrLevel[]) =>
+  levels.length > 1 ? `${levels.slice(0, -1).join(', ')} or ${levels[levels.length - 1]}` : levels[0];
+
+const vocabularyKind = (profile: LearningProfile) =>
+  profile.includePhrases ? 'English vocabulary items (single words, phrasal verbs and idioms)' : 'English vocabulary words';
+
+export const prompts = {
+  processArticle: (content: string, profile: LearningProfile) => `Analyze the following ${isUrlSource(content) ? 'URL' : 'text'} from an article.
+    1. Summarize it briefly (max 3 sentences).
+    2. Extract about ${profile.wordsPerArticle} ${vocabularyKind(profile)} at CEFR ${describeLevels(cefrRange(profile))} level that are worth learning${profile.domains.length ? `, favouring those used in ${profile.domains.join(', ')}` : ''}.
+    3. For each word, provide: pronunciation, ${languageName(profile.nativeLanguage)} meaning, a contextual example sentence quoted exactly from the text, and its CEFR level (${describeLevels(cefrRange(profile))}).
+
+    Source: ${content}`,
+  processWord: (word: string, context: string, profile: LearningProfile) => `Create a vocabulary flashcard for the English word or phrase "${word}".
+    Provide: the word in its dictionary form, pronunciation, ${languageName(profile.nativeLanguage)} meaning (the sense used in the context if one is given), a contextual example, and its CEFR level (A1 to C2).
+    ${context ? `Use this sentence from the article as the example: "${context}"` : ''}`,
+  summarizeArticle: (content: string) => `Summarize the following ${isUrlSource(content) ? 'URL' : 'text'} into a clear, bulleted list of 3-5 main points. Focus on the core message and key insights.
+
+    Source: ${content}`,
+  suggestedMaterial: "Find 3 recent interesting articles from Morning Brew (morningbrew.com) and 3 from VnExpress International (e.vnexpress.net). Return their titles, a short teaser summary for each, and their direct URLs.",
+  regenerateCardField: (word: string, field: EditableCardField, language: string, context: string) => `For the English vocabulary item "${word}", write ${FIELD_INSTRUCTIONS[field](language)}.
+    ${context ? `It was met in this sentence: "${context}"` : ''}
+    Return only the value, with no label or explanation.`,
+  fetchArticleText: (url: string) => `Return the full main text of the article at this URL, exactly as published, with paragraphs separated by blank lines.
+    Leave out navigation, ads, captions and comments. Return only the article text.
+
+    URL: ${url}`,
+  assessPronunciation: (text: string, ipa: string) => `The recording is an English learner saying: "${text}"${ipa ? ` (target pronunciation ${ipa})` : ''}.
+        Rate how closely it matches a standard pronunciation from 0 to 100, transcribe what was said, and list each syllable or phoneme group that was off with the expected IPA, the IPA actually heard, and a short tip. Return an empty list if nothing was off.`,
+};
+
+/** Strips the quotes models like to wrap a bare value in. */
+export const cleanFieldValue = (text: string | undefined) => (text || '').trim().replace(/^"|"$/g, '');
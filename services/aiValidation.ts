@@ -0,0 +1,169 @@
+import { CefrLevel } from '../types';
+import { AIProvider, AIError, ExtractedWord, ProcessedArticle, RejectedWord, SuggestedMaterial, isUrlSource, describeLevels } from './aiProvider';
+import { CEFR_LEVELS, cefrRange } from './profileService';
+import { normalizeWord } from './lemmaService';
+
+// --- Model Output Checks ---
+// Models return malformed JSON now and then, and invent example sentences more often than that.
+// Parsed payloads are checked field by field here: bad words are dropped with a reason instead of
+// failing the article, and calls that yield nothing usable are retried with backoff.
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parses model JSON, repairing the usual damage: code fences, prose around the payload and
+ * trailing commas. Throws a `malformed` AIError when nothing parseable is left.
+ */
+export const parseModelJson = (text: string | undefined): unknown => {
+  const raw = (text || '').trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  try {
+    return JSON.parse(raw);
+  } catch {
+    const start = raw.search(/[[{]/);
+    const end = Math.max(raw.lastIndexOf('}'), raw.lastIndexOf(']'));
+    try {
+      if (start < 0 || end < start) throw new Error('No JSON found');
+      return JSON.parse(raw.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1'));
+    } catch {
+      throw new AIError("The AI returned an unreadable response.", 'malformed');
+    }
+  }
+};
+
+// Client errors other than timeouts and rate limits mean a bad key or request; retrying won't help
+const isRefused = (err: unknown) => {
+  const status = (err as { status?: number })?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 408 && status !== 429;
+};
+
+const isRetryable = (err: unknown) =>
+  err instanceof AIError ? err.kind === 'malformed' || err.kind === 'empty' : !isRefused(err);
+
+/** Runs `fn` up to MAX_ATTEMPTS times, doubling the wait after each failure. */
+export const withRetry = async <T>(fn: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(err)) {
+        if (err instanceof AIError) throw err;
+        console.error(err);
+        throw new AIError(isRefused(err)
+          ? "The AI service refused the request. Check the API key and model settings."
+          : "The AI service could not be reached. Check your connection and try again.", 'request');
+      }
+      await sleep(BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Lower-cased without quote marks and with whitespace collapsed, so a faithful quote matches despite typography
+const normalizeForMatch = (value: string) =>
+  value.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”"]/g, '').replace(/\s+/g, ' ').trim();
+
+const tokens = (value: string) => (value.match(/[\p{L}']+/gu) ?? []).map(normalizeWord);
+
+/**
+ * Whether `context` uses `word`, matched by word family. A phrase may differ in one word, which
+ * covers irregular verb forms such as "took into account" for "take into account".
+ */
+const contextUsesWord = (word: string, context: string) => {
+  const inContext = new Set(tokens(context));
+  const wanted = tokens(word);
+  const missing = wanted.filter((t) => !inContext.has(t)).length;
+  return wanted.length > 1 ? missing <= 1 : missing === 0;
+};
+
+/** Whether `context` appears in `source`, ignoring the sentence's closing punctuation. */
+const quotedFrom = (context: string, source: string) =>
+  normalizeForMatch(source).includes(normalizeForMatch(context).replace(/[.!?…]+$/, ''));
+
+const NOT_IN_CONTEXT = 'the example does not use the word';
+
+/**
+ * Checks one extracted word against the allowed CEFR `levels`. `source` is the text the context
+ * must be quoted from; it is left out when the model read a URL itself and the text is not known here.
+ * `usedForm` is the form the context must contain, when it differs from the returned dictionary form.
+ */
+export const checkWord = (value: unknown, levels: CefrLevel[], source?: string, usedForm?: string): ExtractedWord | RejectedWord => {
+  const entry = (value ?? {}) as Record<string, unknown>;
+  const word = text(entry.word);
+  const context = text(entry.context);
+  const difficulty = text(entry.difficulty).toUpperCase();
+  const reject = (reason: string): RejectedWord => ({ word: word || '(blank)', reason });
+
+  if (!word) return reject('no word');
+  if (!text(entry.meaning)) return reject('no meaning');
+  if (!levels.includes(difficulty as CefrLevel)) return reject(`"${text(entry.difficulty)}" is not ${describeLevels(levels)}`);
+  if (!context) return reject('no example sentence');
+  if (!contextUsesWord(usedForm || word, context)) return reject(NOT_IN_CONTEXT);
+  if (source && !quotedFrom(context, source)) return reject('the example is not from the article');
+  return {
+    word,
+    pronunciation: text(entry.pronunciation),
+    meaning: text(entry.meaning),
+    context,
+    difficulty: difficulty as CefrLevel,
+  };
+};
+
+const isRejected = (result: ExtractedWord | RejectedWord): result is RejectedWord => 'reason' in result;
+
+export const checkArticle = (value: unknown, levels: CefrLevel[], source?: string): ProcessedArticle => {
+  const data = value as Record<string, unknown> | null;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.words)) {
+    throw new AIError("The AI response was missing its word list.", 'malformed');
+  }
+  const words: ExtractedWord[] = [];
+  const rejected: RejectedWord[] = [];
+  const seen = new Set<string>();
+  data.words.forEach((entry) => {
+    const result = checkWord(entry, levels, source);
+    if (isRejected(result)) rejected.push(result);
+    else if (seen.has(normalizeWord(result.word))) rejected.push({ word: result.word, reason: 'listed twice' });
+    else {
+      seen.add(normalizeWord(result.word));
+      words.push(result);
+    }
+  });
+  if (words.length === 0) {
+    throw new AIError("The AI found no usable words in this article.", 'empty', rejected);
+  }
+  return { title: text(data.title), author: text(data.author), summary: text(data.summary), words, url: text(data.url), rejected };
+};
+
+export const checkSuggestions = (value: unknown): SuggestedMaterial[] => {
+  if (!Array.isArray(value)) throw new AIError("The AI returned no suggestions.", 'malformed');
+  const items = value
+    .map((entry) => ({ title: text(entry?.title), summary: text(entry?.summary), url: text(entry?.url), source: text(entry?.source) }))
+    .filter((item) => item.title && isUrlSource(item.url));
+  if (items.length === 0) throw new AIError("The AI returned no usable suggestions.", 'empty');
+  return items;
+};
+
+/**
+ * Wraps a provider so its structured answers are validated and retried. Providers parse with
+ * `parseModelJson`; everything else passes through untouched.
+ */
+export const withValidation = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  processArticle: (content, profile, url) =>
+    // Only pasted text is known here; for a URL the model fetched the page itself
+    withRetry(async () => checkArticle(await provider.processArticle(content, profile, url), cefrRange(profile), isUrlSource(content) ? undefined : content)),
+  // A word the learner picked is kept whatever its level. The model answers with the dictionary form
+  // ("child" for "children"), so the sentence is checked for the form the learner actually selected.
+  processWord: (word, profile, context) =>
+    withRetry(async () => {
+      const result = checkWord(await provider.processWord(word, profile, context), CEFR_LEVELS, context || undefined, context ? word : undefined);
+      if (isRejected(result)) {
+        throw new AIError(`The AI could not describe "${word}": ${result.reason}.`, result.reason === NOT_IN_CONTEXT ? 'rejected' : 'empty', [result]);
+      }
+      return result;
+    }),
+  getSuggestedMaterial: () => withRetry(async () => checkSuggestions(await provider.getSuggestedMaterial())),
+});
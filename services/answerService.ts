@@ -0,0 +1,130 @@
+import { Flashcard, Difficulty, CardTemplate } from '../types';
+import { normalizeText } from './vaultQuery';
+
+// --- Typed Answers ---
+// Grades a typed answer against the card, tolerant of typos and of missing diacritics
+// (as in Vietnamese or Spanish meanings), and suggests the rating the learner would most likely give themselves.
+
+export interface DiffPart {
+  type: 'equal' | 'missing' | 'extra'; // missing: in the expected answer only; extra: typed only
+  text: string;
+}
+
+export interface AnswerGrade {
+  correct: boolean;
+  exact: boolean; // Matches including diacritics
+  expected: string; // The accepted alternative closest to what was typed
+  distance: number; // Edits between the typed answer and `expected`, ignoring case and diacritics
+  diff: DiffPart[];
+  suggested: Difficulty;
+}
+
+// Answers under this many milliseconds with no mistakes are suggested as Easy
+const EASY_ANSWER_MS = 5000;
+
+/**
+ * What the learner is asked to produce for each template. Listening cards are dictation, so the
+ * answer is whatever was read aloud.
+ */
+export const expectedAnswer = (card: Flashcard, template: CardTemplate, heard: string = card.word) => {
+  if (template === 'recognition') return card.meaning;
+  return template === 'listening' ? heard : card.word;
+};
+
+const clean = (text: string) => text.replace(/\([^)]*\)/g, ' ').replace(/[.,!?;:"“”]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/** Meanings like "giảm nhẹ, làm dịu" accept either part. */
+const alternatives = (answer: string) => {
+  const parts = answer.split(/[,;/]/).map(clean).filter(Boolean);
+  return Array.from(new Set([clean(answer), ...parts])).filter(Boolean);
+};
+
+const levenshtein = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+/** Typos allowed before an answer counts as wrong: one per six letters, at least one. */
+const tolerance = (expected: string) => Math.max(1, Math.floor(expected.length / 6));
+
+/**
+ * Character-level diff of the typed answer against the expected one, via the longest common
+ * subsequence. Characters are compared without case or diacritics, but shown as written.
+ */
+export const diffChars = (expected: string, given: string): DiffPart[] => {
+  const a = Array.from(expected);
+  const b = Array.from(given);
+  const key = (ch: string) => normalizeText(ch);
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = key(a[i]) === key(b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], ch: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += ch;
+    else parts.push({ type, text: ch });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && key(a[i]) === key(b[j])) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push('extra', b[j++]);
+    } else {
+      push('missing', a[i++]);
+    }
+  }
+  return parts;
+};
+
+/** Multiple-choice meanings for a listening card: the right one plus distractors in the same language from the vault. */
+export const meaningChoices = (card: Flashcard, cards: Flashcard[], count: number = 4): string[] => {
+  const others = Array.from(new Set(
+    cards.filter((c) => c.id !== card.id && c.meaningLanguage === card.meaningLanguage && c.meaning !== card.meaning).map((c) => c.meaning)
+  ));
+  const distractors = others.sort(() => Math.random() - 0.5).slice(0, count - 1);
+  return [...distractors, card.meaning].sort(() => Math.random() - 0.5);
+};
+
+/** A picked meaning is either right or wrong, so only the answer time separates Good from Easy. */
+export const gradeChoice = (picked: string, answer: string, answerTimeMs: number = Infinity): AnswerGrade => {
+  const correct = picked === answer;
+  return {
+    correct,
+    exact: correct,
+    expected: answer,
+    distance: correct ? 0 : Infinity,
+    diff: correct ? [{ type: 'equal', text: answer }] : [{ type: 'extra', text: picked }, { type: 'missing', text: answer }],
+    suggested: !correct ? Difficulty.AGAIN : answerTimeMs < EASY_ANSWER_MS ? Difficulty.EASY : Difficulty.GOOD,
+  };
+};
+
+export const gradeAnswer = (given: string, answer: string, answerTimeMs: number = Infinity): AnswerGrade => {
+  const typed = clean(given);
+  const scored = alternatives(answer).map((expected) => ({
+    expected,
+    distance: levenshtein(normalizeText(typed), normalizeText(expected)),
+  }));
+  const best = scored.sort((a, b) => a.distance - b.distance)[0] ?? { expected: answer, distance: Infinity };
+  const exact = typed.toLowerCase() === best.expected.toLowerCase();
+  const correct = typed !== '' && best.distance <= tolerance(best.expected);
+
+  let suggested = Difficulty.AGAIN;
+  if (correct && best.distance > 0) suggested = Difficulty.HARD;
+  else if (correct) suggested = answerTimeMs < EASY_ANSWER_MS ? Difficulty.EASY : Difficulty.GOOD;
+
+  return { correct, exact, expected: best.expected, distance: best.distance, diff: diffChars(best.expected, typed), suggested };
+};
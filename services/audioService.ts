@@ -0,0 +1,107 @@
+import { currentProvider } from './ai';
+import { localStore } from './localStore';
+
+// --- Pronunciation Audio ---
+// Model TTS is cached per provider, voice and text in IndexedDB, so each word is paid for once per
+// device. When the model cannot be reached, the browser's own speech synthesis reads instead.
+
+const SAMPLE_RATE = 24000;
+
+let audioContext: AudioContext | null = null;
+// Requests already under way, so a prefetch and a click on the same word share one call
+const inFlight = new Map<string, Promise<ArrayBuffer>>();
+
+const cacheKey = (text: string) => {
+  const provider = currentProvider();
+  return `${provider.id}:${provider.voice}:${text.trim().toLowerCase()}`;
+};
+
+const getContext = () => {
+  if (!audioContext) audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
+  return audioContext;
+};
+
+const decodeBase64 = (base64: string) => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+const toAudioBuffer = (pcm: ArrayBuffer, ctx: AudioContext) => {
+  const samples = new Int16Array(pcm);
+  const buffer = ctx.createBuffer(1, samples.length, SAMPLE_RATE);
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) channel[i] = samples[i] / 32768.0;
+  return buffer;
+};
+
+/** Cached PCM for `text`, generating and storing it on a miss. */
+const getSpeech = (text: string): Promise<ArrayBuffer> => {
+  const key = cacheKey(text);
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+  const request = (async () => {
+    const cached = await localStore.getAudio(key).catch(() => undefined);
+    if (cached) return cached.pcm;
+    const pcm = decodeBase64(await currentProvider().synthesizeSpeech(text));
+    await localStore.putAudio({ key, pcm, createdAt: Date.now() }).catch((err) => console.error("Audio cache error:", err));
+    return pcm;
+  })();
+  inFlight.set(key, request);
+  request.finally(() => inFlight.delete(key)).catch(() => {});
+  return request;
+};
+
+const speakWithBrowser = (text: string, rate: number) =>
+  new Promise<void>((resolve, reject) => {
+    if (!('speechSynthesis' in window)) return reject(new Error("Speech synthesis is not supported."));
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'en-US';
+    utterance.rate = rate;
+    utterance.onend = () => resolve();
+    utterance.onerror = (e) => reject(new Error(e.error));
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  });
+
+/**
+ * Speaks `text`; `rate` below 1 slows playback down for listening drills. Resolves to false only
+ * when neither the model nor the browser could produce any audio.
+ */
+export const playPronunciation = async (text: string, rate: number = 1): Promise<boolean> => {
+  try {
+    const ctx = getContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    const source = ctx.createBufferSource();
+    source.buffer = toAudioBuffer(await getSpeech(text), ctx);
+    source.playbackRate.value = rate;
+    source.connect(ctx.destination);
+    source.start();
+    return true;
+  } catch (err) {
+    console.error("TTS Error:", err);
+  }
+  try {
+    await speakWithBrowser(text, rate);
+    return true;
+  } catch (err) {
+    console.error("Speech synthesis error:", err);
+    return false;
+  }
+};
+
+/** Warms the cache for texts that are about to be played. Runs one request at a time. */
+export const prefetchPronunciations = async (texts: string[]) => {
+  if (!navigator.onLine) return;
+  for (const text of Array.from(new Set(texts.filter((t) => t.trim())))) {
+    try {
+      await getSpeech(text);
+    } catch {
+      // A failed prefetch is retried when the card is actually played
+      return;
+    }
+  }
+};
@@ -0,0 +1,20 @@
+import { isFirebaseConfigured } from './firebase';
+import { FlashcardRepository, AuthService, StorageBackend } from './repository';
+import { firestoreRepository, firebaseAuthService } from './firestoreRepository';
+import { serverRepository, serverAuthService } from './serverRepository';
+import { createSyncedRepository } from './syncRepository';
+
+// VITE_STORAGE_BACKEND=server switches the whole app to the self-hosted Express server
+export const storageBackend: StorageBackend =
+  import.meta.env.VITE_STORAGE_BACKEND === 'server' ? 'server' : 'firebase';
+
+export const isBackendConfigured = storageBackend === 'server' || isFirebaseConfigured;
+
+const remoteRepository: FlashcardRepository =
+  storageBackend === 'server' ? serverRepository : firestoreRepository;
+
+// Pages read and write the local IndexedDB vault; the remote backend is reached through sync only
+export const repository = createSyncedRepository(remoteRepository);
+
+export const authService: AuthService =
+  storageBackend === 'server' ? serverAuthService : firebaseAuthService;
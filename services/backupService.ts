@@ -0,0 +1,142 @@
+import { Flashcard, ReviewLog, CardState } from '../types';
+import { initializeCard } from './srsService';
+import { isCefrLevel } from './profileService';
+
+// --- Vault Backup ---
+// Reads the JSON produced by the Bank "Backup Vault" button and plans how to merge it
+// into the current account.
+
+export interface VaultBackup {
+  exportedAt: number;
+  cards: Flashcard[];
+  reviewLogs: ReviewLog[];
+}
+
+export interface RestorePlan {
+  toAdd: Flashcard[];
+  toUpdate: Flashcard[];
+  skipped: Flashcard[]; // Existing copy is as new or newer
+  invalid: number; // Entries that do not look like a Flashcard at all
+  reviewLogs: ReviewLog[]; // Logs not yet present, re-pointed at the restored card ids
+}
+
+const SCHEDULING_FIELDS = ['due', 'stability', 'difficultyRating', 'elapsedDays', 'scheduledDays', 'reps'] as const;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks an unknown entry against the Flashcard shape. Content fields are required; if the
+ * scheduling fields are incomplete the card is restored as new instead of being rejected.
+ */
+export const validateCard = (raw: unknown): Flashcard | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = raw as Record<string, unknown>;
+  // Backups from before meanings were language-tagged carry `vietnameseMeaning` instead
+  const meaning = isNonEmptyString(entry.meaning) ? entry.meaning : entry.vietnameseMeaning;
+  if (!isNonEmptyString(entry.word) || !isNonEmptyString(meaning)) return null;
+  if (!isCefrLevel(entry.difficulty)) return null;
+
+  const content = {
+    word: entry.word.trim(),
+    pronunciation: typeof entry.pronunciation === 'string' ? entry.pronunciation : '',
+    meaning,
+    meaningLanguage: isNonEmptyString(entry.meaning) && isNonEmptyString(entry.meaningLanguage) ? entry.meaningLanguage : 'vi',
+    context: typeof entry.context === 'string' ? entry.context : '',
+    difficulty: entry.difficulty,
+  };
+  const source = typeof entry.source === 'string' ? entry.source : 'Backup';
+  const hasSchedule = SCHEDULING_FIELDS.every((field) => isFiniteNumber(entry[field]))
+    && isFiniteNumber(entry.state) && entry.state in CardState;
+
+  const fallback = initializeCard(content, source, '');
+  const id = isNonEmptyString(entry.id) ? entry.id : fallback.id;
+  if (!hasSchedule) return { ...fallback, id };
+  return {
+    ...(entry as unknown as Flashcard),
+    ...content,
+    source,
+    id,
+    createdAt: isFiniteNumber(entry.createdAt) ? entry.createdAt : fallback.createdAt,
+    updatedAt: isFiniteNumber(entry.updatedAt) ? entry.updatedAt : fallback.updatedAt,
+  };
+};
+
+const validateLog = (raw: unknown): ReviewLog | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = raw as Record<string, unknown>;
+  if (!isNonEmptyString(entry.id) || !isNonEmptyString(entry.cardId)) return null;
+  if (!isFiniteNumber(entry.reviewedAt) || !isFiniteNumber(entry.rating)) return null;
+  return entry as unknown as ReviewLog;
+};
+
+/** Accepts both the current `{ cards, reviewLogs }` backup and the older bare array of cards. */
+export const parseBackup = (text: string): { backup: VaultBackup; invalid: number } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  const rawCards = Array.isArray(data) ? data : (data as { cards?: unknown })?.cards;
+  if (!Array.isArray(rawCards)) throw new Error("This file does not contain a LingoFlow vault.");
+  const rawLogs = Array.isArray(data) ? [] : (data as { reviewLogs?: unknown }).reviewLogs;
+
+  const cards = rawCards.map(validateCard).filter((c): c is Flashcard => !!c);
+  const reviewLogs = (Array.isArray(rawLogs) ? rawLogs : []).map(validateLog).filter((l): l is ReviewLog => !!l);
+  const exportedAt = Array.isArray(data) ? 0 : Number((data as { exportedAt?: unknown }).exportedAt) || 0;
+  return { backup: { exportedAt, cards, reviewLogs }, invalid: rawCards.length - cards.length };
+};
+
+/**
+ * Merges by word (case-insensitive): unknown words are added, known words are replaced only
+ * when the backup copy has a newer `updatedAt`. Every card is re-owned by `userId`, and an
+ * updated card keeps the existing id so its review history stays attached.
+ */
+export const planRestore = (
+  existing: Flashcard[],
+  backup: VaultBackup,
+  existingLogs: ReviewLog[],
+  userId: string,
+  invalid: number = 0
+): RestorePlan => {
+  const byWord = new Map(existing.map((c) => [c.word.toLowerCase(), c]));
+  const takenIds = new Set(existing.map((c) => c.id));
+  const idMap = new Map<string, string>();
+  const plan: RestorePlan = { toAdd: [], toUpdate: [], skipped: [], invalid, reviewLogs: [] };
+
+  backup.cards.forEach((incoming) => {
+    const key = incoming.word.toLowerCase();
+    const match = byWord.get(key);
+    if (match) {
+      if (!idMap.has(incoming.id)) idMap.set(incoming.id, match.id);
+      if (incoming.updatedAt <= match.updatedAt) {
+        plan.skipped.push(incoming);
+        return;
+      }
+      const card = { ...incoming, id: match.id, userId };
+      byWord.set(key, card);
+      // A word repeated within the file replaces the copy already queued from it
+      const queuedAdd = plan.toAdd.indexOf(match);
+      const queuedUpdate = plan.toUpdate.indexOf(match);
+      if (queuedAdd >= 0) plan.toAdd[queuedAdd] = card;
+      else if (queuedUpdate >= 0) plan.toUpdate[queuedUpdate] = card;
+      else plan.toUpdate.push(card);
+      return;
+    }
+    // Ids can collide with an unrelated card, or with another entry in the same file
+    const id = takenIds.has(incoming.id) ? initializeCard({}, '', userId).id : incoming.id;
+    takenIds.add(id);
+    // Logs follow the first card in the file that carried their card id
+    if (!idMap.has(incoming.id)) idMap.set(incoming.id, id);
+    const card = { ...incoming, id, userId };
+    byWord.set(key, card);
+    plan.toAdd.push(card);
+  });
+
+  const knownLogIds = new Set(existingLogs.map((l) => l.id));
+  plan.reviewLogs = backup.reviewLogs
+    .filter((l) => !knownLogIds.has(l.id) && idMap.has(l.cardId))
+    .map((l) => ({ ...l, cardId: idMap.get(l.cardId)!, userId }));
+  return plan;
+};
@@ -0,0 +1,73 @@
+import { Flashcard, CardState, Difficulty } from '../types';
+
+// --- Suspend, Bury & Leeches ---
+// Suspended cards stay out of every study queue until unsuspended; buried ones only until the
+// next local day. A card that keeps lapsing is flagged as a leech, and optionally suspended,
+// so it can be rewritten instead of failed over and over.
+
+export type LeechAction = 'flag' | 'suspend';
+
+export interface LeechSettings {
+  threshold: number; // Lapses of one card type before the note counts as a leech
+  action: LeechAction;
+}
+
+export const DEFAULT_LEECH: LeechSettings = { threshold: 8, action: 'flag' };
+
+export const LEECH_ACTION_LABELS: Record<LeechAction, string> = {
+  flag: 'Flag Only',
+  suspend: 'Flag & Suspend',
+};
+
+export const isBuried = (card: Flashcard, now: number = Date.now()) => (card.buriedUntil ?? 0) > now;
+
+/** Whether the card may appear in a study queue at all, whatever its schedule says. */
+export const isStudyable = (card: Flashcard, now: number = Date.now()) => !card.suspended && !isBuried(card, now);
+
+export const setSuspended = (card: Flashcard, suspended: boolean, now: number = Date.now()): Flashcard =>
+  ({ ...card, suspended, updatedAt: now });
+
+/** Hides the card until local midnight; its schedule is left as it is. */
+export const buryUntilTomorrow = (card: Flashcard, now: number = Date.now()): Flashcard => {
+  const tomorrow = new Date(now);
+  tomorrow.setHours(24, 0, 0, 0);
+  return { ...card, buriedUntil: tomorrow.getTime(), updatedAt: now };
+};
+
+/** Clears the leech flag and lifts any suspension, once the card has been reworked. */
+export const clearLeech = (card: Flashcard, now: number = Date.now()): Flashcard =>
+  ({ ...card, leech: false, suspended: false, updatedAt: now });
+
+/**
+ * Applies the leech rule after a rating of one template. A card counts as a leech when its lapses
+ * reach the threshold, and is caught again every half threshold after that, so unsuspending a
+ * leech that keeps failing suspends it again instead of letting it lapse forever.
+ */
+export const checkLeech = (
+  card: Flashcard,
+  before: Flashcard,
+  scheduled: Flashcard,
+  rating: Difficulty,
+  settings: LeechSettings
+): Flashcard => {
+  if (before.state !== CardState.REVIEW || rating !== Difficulty.AGAIN) return card;
+  const lapses = scheduled.lapses ?? 0;
+  const repeatEvery = Math.max(1, Math.ceil(settings.threshold / 2));
+  if (lapses < settings.threshold || (lapses - settings.threshold) % repeatEvery !== 0) return card;
+  return { ...card, leech: true, suspended: card.suspended || settings.action === 'suspend' };
+};
+
+/** Stored settings merged over the defaults, with a threshold of at least one lapse. */
+export const parseLeechSettings = (stored: string | null): LeechSettings => {
+  let raw: Partial<LeechSettings> = {};
+  try {
+    raw = stored ? JSON.parse(stored) : {};
+  } catch {
+    // A corrupt entry falls back to the defaults
+  }
+  const threshold = Math.round(Number(raw.threshold));
+  return {
+    threshold: Number.isFinite(threshold) && threshold >= 1 ? threshold : DEFAULT_LEECH.threshold,
+    action: raw.action && raw.action in LEECH_ACTION_LABELS ? raw.action : DEFAULT_LEECH.action,
+  };
+};
@@ -0,0 +1,127 @@
+import {
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signOut,
+  onAuthStateChanged
+} from 'firebase/auth';
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  getDoc,
+  setDoc,
+  doc,
+  deleteDoc,
+  writeBatch
+} from 'firebase/firestore';
+import { auth, db as firestore } from './firebase';
+import { Flashcard, ReviewLog, Article, StudySession } from '../types';
+import { FlashcardRepository, AuthService } from './repository';
+
+// Firestore caps a batch at 500 writes and an `in` filter at 30 values
+const BATCH_LIMIT = 500;
+const IN_LIMIT = 30;
+
+const listByUser = async <T>(collectionName: string, userId: string): Promise<T[]> => {
+  const q = query(collection(firestore, collectionName), where("userId", "==", userId));
+  const querySnapshot = await getDocs(q);
+  const data: T[] = [];
+  querySnapshot.forEach((doc) => data.push(doc.data() as T));
+  return data;
+};
+
+const setAll = async (collectionName: string, items: { id: string }[]) => {
+  for (let i = 0; i < items.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(firestore);
+    items.slice(i, i + BATCH_LIMIT).forEach((item) => batch.set(doc(firestore, collectionName, item.id), item));
+    await batch.commit();
+  }
+};
+
+export const firestoreRepository: FlashcardRepository = {
+  listCards: (userId) => listByUser<Flashcard>("flashcards", userId),
+
+  saveCard: async (card) => {
+    await setDoc(doc(firestore, "flashcards", card.id), card);
+  },
+
+  saveCards: (cards) => setAll("flashcards", cards),
+
+  deleteCard: async (cardId) => {
+    await deleteDoc(doc(firestore, "flashcards", cardId));
+  },
+
+  findCardsByWord: async (userId, normalizedWords) => {
+    const keys = Array.from(new Set(normalizedWords));
+    const data: Flashcard[] = [];
+    for (let i = 0; i < keys.length; i += IN_LIMIT) {
+      const q = query(
+        collection(firestore, "flashcards"),
+        where("userId", "==", userId),
+        where("normalizedWord", "in", keys.slice(i, i + IN_LIMIT))
+      );
+      (await getDocs(q)).forEach((doc) => data.push(doc.data() as Flashcard));
+    }
+    return data;
+  },
+
+  listReviewLogs: (userId) => listByUser<ReviewLog>("reviewLogs", userId),
+
+  saveReviewLogs: (logs) => setAll("reviewLogs", logs),
+
+  recordReview: async (card, log) => {
+    const batch = writeBatch(firestore);
+    batch.set(doc(firestore, "flashcards", card.id), card);
+    batch.set(doc(firestore, "reviewLogs", log.id), log);
+    await batch.commit();
+  },
+
+  undoReview: async (card, logId) => {
+    const batch = writeBatch(firestore);
+    batch.set(doc(firestore, "flashcards", card.id), card);
+    batch.delete(doc(firestore, "reviewLogs", logId));
+    await batch.commit();
+  },
+
+  listArticles: (userId) => listByUser<Article>("articles", userId),
+
+  saveArticle: async (article) => {
+    await setDoc(doc(firestore, "articles", article.id), article);
+  },
+
+  deleteArticle: async (articleId) => {
+    await deleteDoc(doc(firestore, "articles", articleId));
+  },
+
+  // Keyed by user, since each user has at most one session in progress
+  getStudySession: async (userId) => {
+    const snapshot = await getDoc(doc(firestore, "studySessions", userId));
+    return snapshot.exists() ? snapshot.data() as StudySession : null;
+  },
+
+  saveStudySession: async (session) => {
+    await setDoc(doc(firestore, "studySessions", session.userId), session);
+  },
+
+  clearStudySession: async (userId) => {
+    await deleteDoc(doc(firestore, "studySessions", userId));
+  },
+};
+
+export const firebaseAuthService: AuthService = {
+  onAuthStateChanged: (callback) =>
+    onAuthStateChanged(auth, (firebaseUser) => {
+      callback(firebaseUser ? { id: firebaseUser.uid, email: firebaseUser.email || "" } : null);
+    }),
+
+  signIn: async (email, password) => {
+    await signInWithEmailAndPassword(auth, email, password);
+  },
+
+  signUp: async (email, password) => {
+    await createUserWithEmailAndPassword(auth, email, password);
+  },
+
+  signOut: () => signOut(auth),
+};
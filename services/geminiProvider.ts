@@ -0,0 +1,182 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { CefrLevel } from '../types';
+import { AIProvider, ExtractedWord, ProcessedArticle, SuggestedMaterial, PronunciationResult, isUrlSource, prompts, cleanFieldValue } from './aiProvider';
+import { parseModelJson } from './aiValidation';
+import { CEFR_LEVELS, cefrRange } from './profileService';
+
+const TEXT_MODEL = "gemini-3-flash-preview";
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use, so choosing another provider never needs a Gemini key
+const getClient = () => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+// The level enum follows the learner's CEFR band, so the model cannot answer outside it
+const wordSchema = (levels: CefrLevel[]) => ({
+  type: Type.OBJECT,
+  properties: {
+    word: { type: Type.STRING },
+    pronunciation: { type: Type.STRING },
+    meaning: { type: Type.STRING },
+    context: { type: Type.STRING },
+    difficulty: { type: Type.STRING, enum: levels }
+  },
+  required: ['word', 'pronunciation', 'meaning', 'context', 'difficulty']
+});
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  voice: 'Kore',
+
+  processArticle: async (content, profile, url = "") => {
+    const isUrl = isUrlSource(content);
+    const response = await getClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompts.processArticle(content, profile),
+      config: {
+        tools: isUrl ? [{ googleSearch: {} }] : undefined,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            author: { type: Type.STRING },
+            summary: { type: Type.STRING },
+            words: { type: Type.ARRAY, items: wordSchema(cefrRange(profile)) }
+          },
+          required: ['title', 'author', 'summary', 'words']
+        }
+      }
+    });
+
+    const data = parseModelJson(response.text) as object;
+    return { ...data, url: isUrl ? content : url } as ProcessedArticle;
+  },
+
+  processWord: async (word, profile, context = "") => {
+    const response = await getClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompts.processWord(word, context, profile),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: wordSchema(CEFR_LEVELS),
+      }
+    });
+    return parseModelJson(response.text) as ExtractedWord;
+  },
+
+  summarizeArticle: async (content) => {
+    const response = await getClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompts.summarizeArticle(content),
+      config: {
+        tools: isUrlSource(content) ? [{ googleSearch: {} }] : undefined,
+      }
+    });
+    return response.text || '';
+  },
+
+  getSuggestedMaterial: async () => {
+    const response = await getClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompts.suggestedMaterial,
+      config: {
+        tools: [{ googleSearch: {} }],
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              summary: { type: Type.STRING },
+              url: { type: Type.STRING },
+              source: { type: Type.STRING }
+            },
+            required: ['title', 'summary', 'url', 'source']
+          }
+        }
+      }
+    });
+    return parseModelJson(response.text) as SuggestedMaterial[];
+  },
+
+  regenerateCardField: async (word, field, language, context = "") => {
+    const response = await getClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompts.regenerateCardField(word, field, language, context),
+    });
+    return cleanFieldValue(response.text);
+  },
+
+  fetchArticleText: async (url) => {
+    const response = await getClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: prompts.fetchArticleText(url),
+      config: {
+        tools: [{ googleSearch: {} }],
+      }
+    });
+    return (response.text || '').trim();
+  },
+
+  synthesizeSpeech: async (text) => {
+    const response = await getClient().models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text: `Say clearly: ${text}` }] }],
+      config: {
+        responseModalities: ["AUDIO" as any],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: geminiProvider.voice },
+          },
+        },
+      },
+    });
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("The model returned no audio.");
+    return base64Audio;
+  },
+
+  assessPronunciation: async (audioBase64, mimeType, text, ipa) => {
+    const response = await getClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: [{
+        parts: [
+          { inlineData: { mimeType, data: audioBase64 } },
+          { text: prompts.assessPronunciation(text, ipa) },
+        ],
+      }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            score: { type: Type.NUMBER },
+            transcript: { type: Type.STRING },
+            issues: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  segment: { type: Type.STRING },
+                  expected: { type: Type.STRING },
+                  heard: { type: Type.STRING },
+                  tip: { type: Type.STRING }
+                },
+                required: ['segment', 'expected', 'heard']
+              }
+            }
+          },
+          required: ['score', 'transcript', 'issues']
+        }
+      }
+    });
+    return parseModelJson(response.text) as PronunciationResult;
+  },
+};
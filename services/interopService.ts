@@ -0,0 +1,284 @@
+import { Flashcard, CardState } from '../types';
+import { initializeCard } from './srsService';
+import { isCefrLevel } from './profileService';
+import { CARD_STATE_LABELS } from './statsService';
+
+// --- Anki / Spreadsheet Interop ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ImportField =
+  | 'ignore'
+  | 'word'
+  | 'pronunciation'
+  | 'meaning'
+  | 'context'
+  | 'difficulty'
+  | 'source'
+  | 'tags'
+  | 'due'
+  | 'interval'
+  | 'reps'
+  | 'lapses'
+  | 'state'
+  | 'step'
+  | 'stability';
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  ignore: 'Ignore',
+  word: 'Word',
+  pronunciation: 'Pronunciation',
+  meaning: 'Meaning',
+  context: 'Context',
+  difficulty: 'Level (A1–C2)',
+  source: 'Source',
+  tags: 'Anki Tags',
+  due: 'Due Date',
+  interval: 'Interval (days)',
+  reps: 'Reviews',
+  lapses: 'Lapses',
+  state: 'Card State',
+  step: 'Learning Step',
+  stability: 'Stability (days)',
+};
+
+export interface ParsedTable {
+  headers: string[] | null;
+  rows: string[][];
+  delimiter: string;
+}
+
+// Header aliases recognised when guessing a mapping, including Anki's default field names
+const FIELD_ALIASES: [ImportField, RegExp][] = [
+  ['word', /^(word|front|term|english|expression|vocab(ulary)?)$/i],
+  ['pronunciation', /^(pronunciation|ipa|reading|phonetic)$/i],
+  ['meaning', /^(meaning|back|definition|translation|vietnamese(meaning)?)$/i],
+  ['context', /^(context|example|sentence|usage)$/i],
+  ['difficulty', /^(difficulty|level|cefr)$/i],
+  ['source', /^(source|deck|article)$/i],
+  ['tags', /^tags?$/i],
+  ['due', /^(due|due date|next review)$/i],
+  ['interval', /^(interval|ivl|scheduled ?days)$/i],
+  ['reps', /^(reps|reviews|review count)$/i],
+  ['lapses', /^lapses$/i],
+  ['state', /^(state|card state)$/i],
+  ['step', /^(step|learning step)$/i],
+  ['stability', /^stability$/i],
+];
+
+/**
+ * Parses CSV/TSV text, including Anki's "Notes in Plain Text" export. Anki `#key:value` header
+ * lines are honoured for the separator and column names, then dropped. Quoted fields may contain
+ * delimiters, doubled quotes and newlines.
+ */
+export const parseDelimited = (text: string): ParsedTable => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let delimiter: string | null = null;
+  let headers: string[] | null = null;
+  let start = 0;
+  for (; start < lines.length && lines[start].startsWith('#'); start++) {
+    const [key, ...rest] = lines[start].slice(1).split(':');
+    const value = rest.join(':').trim();
+    if (key === 'separator') {
+      delimiter = ({ tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ' } as Record<string, string>)[value.toLowerCase()] ?? value;
+    }
+    if (key === 'columns') headers = value.split(delimiter ?? '\t');
+  }
+  const body = lines.slice(start).join('\n');
+  if (!delimiter) {
+    const firstLine = lines[start] ?? '';
+    const counts = ['\t', ';', ','].map((d) => [d, firstLine.split(d).length] as const);
+    delimiter = counts.sort((a, b) => b[1] - a[1])[0][0];
+  }
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (inQuotes) {
+      if (ch === '"' && body[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return { headers, rows: rows.filter((r) => r.some((cell) => cell.trim() !== '')), delimiter };
+};
+
+/** True when the first row reads like column names rather than a card. */
+export const looksLikeHeader = (row: string[]) =>
+  row.filter((cell) => FIELD_ALIASES.some(([, alias]) => alias.test(cell.trim()))).length >= 2;
+
+export const guessMapping = (headers: string[] | null, columnCount: number): ImportField[] =>
+  Array.from({ length: columnCount }, (_, i) => {
+    const header = headers?.[i]?.trim();
+    const match = header ? FIELD_ALIASES.find(([, alias]) => alias.test(header)) : undefined;
+    if (match) return match[0];
+    // Without names, assume Anki's usual Front/Back order
+    if (!headers) return i === 0 ? 'word' : i === 1 ? 'meaning' : 'ignore';
+    return 'ignore';
+  });
+
+const stripHtml = (value: string) =>
+  value
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const parseDate = (value: string) => {
+  const numeric = Number(value);
+  if (value !== '' && Number.isFinite(numeric)) return numeric > 1e11 ? numeric : numeric * 1000;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const parseCount = (value: string) => {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+const parsePositive = (value: string) => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+/** A state written by `toCsv` ("Learning") or as its number ("1"). */
+const parseState = (value: string): CardState | null => {
+  const entry = Object.entries(CARD_STATE_LABELS).find(([state, label]) =>
+    value === state || value.toLowerCase() === label.toLowerCase());
+  return entry ? (Number(entry[0]) as CardState) : null;
+};
+
+/**
+ * Turns mapped rows into new cards via `initializeCard`, with meanings tagged as `meaningLanguage`.
+ * When a row carries an interval the card starts in Review with stability seeded from that
+ * interval (FSRS stability is the interval at 90% retention), so imported history is not thrown away.
+ * A card exported mid-way through (re)learning has no interval; its state and step put it back there.
+ */
+export const rowsToCards = (
+  rows: string[][],
+  mapping: ImportField[],
+  userId: string,
+  defaultSource: string,
+  meaningLanguage: string
+): { cards: Flashcard[]; rejected: number } => {
+  const cards: Flashcard[] = [];
+  let rejected = 0;
+  rows.forEach((row) => {
+    const value = (field: ImportField) => {
+      const index = mapping.indexOf(field);
+      return index >= 0 && index < row.length ? stripHtml(row[index]) : '';
+    };
+    const word = value('word');
+    const meaning = value('meaning');
+    if (!word || !meaning) {
+      rejected++;
+      return;
+    }
+    const tags = value('tags').split(/\s+/);
+    const level = (value('difficulty') || tags.find((t) => /^[abc][12]$/i.test(t)) || '').toUpperCase();
+    const card = initializeCard({
+      word,
+      pronunciation: value('pronunciation'),
+      meaning,
+      meaningLanguage,
+      context: value('context'),
+      difficulty: isCefrLevel(level) ? level : 'C1',
+    }, value('source') || defaultSource, userId);
+
+    const interval = parseCount(value('interval'));
+    const due = parseDate(value('due'));
+    const reps = parseCount(value('reps'));
+    const lapses = parseCount(value('lapses'));
+    if (reps !== null) card.reps = reps;
+    if (lapses !== null) card.lapses = lapses;
+    if (interval !== null && interval > 0) {
+      card.state = CardState.REVIEW;
+      card.scheduledDays = interval;
+      card.stability = interval;
+      card.due = due ?? Date.now();
+      card.lastReview = card.due - interval * DAY_MS;
+      card.reps = Math.max(card.reps, 1);
+    } else if (due !== null) {
+      card.due = due;
+    }
+    const state = parseState(value('state'));
+    if (state === CardState.LEARNING || state === CardState.RELEARNING) {
+      card.state = state;
+      card.step = parseCount(value('step')) ?? 0;
+      card.reps = Math.max(card.reps, 1);
+    }
+    const stability = parsePositive(value('stability'));
+    if (stability !== null && card.state !== CardState.NEW) card.stability = stability;
+    cards.push(card);
+  });
+  return { cards, rejected };
+};
+
+const escapeField = (value: string, delimiter: string) =>
+  /["\n\r]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toLines = (rows: string[][], delimiter: string) =>
+  rows.map((row) => row.map((cell) => escapeField(cell, delimiter)).join(delimiter)).join('\n');
+
+const tagify = (value: string) => value.trim().replace(/\s+/g, '_');
+
+/**
+ * Anki "Notes in Plain Text" file. The header lines let Anki pick the separator, field names
+ * and tag column without a manual mapping; level and source travel as tags.
+ */
+export const toAnkiNotes = (cards: Flashcard[]): string => {
+  const header = ['#separator:tab', '#html:false', '#columns:Word\tPronunciation\tMeaning\tContext\tTags', '#tags column:5'];
+  const rows = cards.map((c) => [
+    c.word,
+    c.pronunciation,
+    c.meaning,
+    c.context,
+    ['lingoflow', c.difficulty, c.source ? tagify(c.source) : ''].filter(Boolean).join(' '),
+  ]);
+  return `${header.join('\n')}\n${toLines(rows, '\t')}\n`;
+};
+
+/** Spreadsheet-friendly CSV with scheduling columns, re-importable through `rowsToCards`. */
+export const toCsv = (cards: Flashcard[]): string => {
+  const header = ['Word', 'Pronunciation', 'Meaning', 'Context', 'Level', 'Source', 'Due', 'Interval', 'Reps', 'Lapses', 'State', 'Step', 'Stability'];
+  const rows = cards.map((c) => [
+    c.word,
+    c.pronunciation,
+    c.meaning,
+    c.context,
+    c.difficulty,
+    c.source,
+    new Date(c.due).toISOString(),
+    String(c.state === CardState.REVIEW ? c.scheduledDays : 0),
+    String(c.reps),
+    String(c.lapses ?? 0),
+    CARD_STATE_LABELS[c.state],
+    String(c.step ?? 0),
+    String(Math.round(c.stability * 100) / 100),
+  ]);
+  return `${toLines([header, ...rows], ',')}\n`;
+};
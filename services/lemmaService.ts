@@ -0,0 +1,175 @@
+import { Flashcard, ReviewLog } from '../types';
+
+// --- Word Families ---
+// Cards are compared by a normalized key so "mitigate", "mitigated" and "mitigation" are one word.
+// The key is a Porter stem of each word, which groups inflections and most derivations.
+
+const STEP2: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble', alli: 'al',
+  entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate', ator: 'ate', alism: 'al',
+  iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al', iviti: 'ive', biliti: 'ble', logi: 'log',
+};
+const STEP3: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: '',
+};
+const STEP4 = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/;
+
+const C = '[^aeiou]';
+const V = '[aeiouy]';
+const CS = `${C}[^aeiouy]*`;
+const VS = `${V}[aeiou]*`;
+const MGR0 = new RegExp(`^(${CS})?${VS}${CS}`); // measure > 0
+const MEQ1 = new RegExp(`^(${CS})?${VS}${CS}(${VS})?$`); // measure = 1
+const MGR1 = new RegExp(`^(${CS})?${VS}${CS}${VS}${CS}`); // measure > 1
+const HAS_VOWEL = new RegExp(`^(${CS})?${V}`);
+const CVC = new RegExp(`^${CS}${V}[^aeiouwxy]$`);
+
+/** Porter (1980) stemmer. */
+export const stem = (input: string): string => {
+  let w = input;
+  if (w.length < 3) return w;
+  const firstY = w[0] === 'y';
+  if (firstY) w = `Y${w.slice(1)}`;
+
+  // Step 1a: plurals
+  if (/sses$|ies$/.test(w)) w = w.slice(0, -2);
+  else if (/[^s]s$/.test(w)) w = w.slice(0, -1);
+
+  // Step 1b: -ed / -ing
+  let m: RegExpMatchArray | null;
+  if ((m = w.match(/^(.+?)eed$/))) {
+    if (MGR0.test(m[1])) w = w.slice(0, -1);
+  } else if ((m = w.match(/^(.+?)(ed|ing)$/)) && HAS_VOWEL.test(m[1])) {
+    w = m[1];
+    if (/(at|bl|iz)$/.test(w)) w += 'e';
+    else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+    else if (CVC.test(w)) w += 'e';
+  }
+
+  // Step 1c
+  if ((m = w.match(/^(.+?)y$/)) && HAS_VOWEL.test(m[1])) w = `${m[1]}i`;
+
+  // Step 2 & 3: derivational suffixes mapped to shorter ones
+  [STEP2, STEP3].forEach((table) => {
+    const suffix = Object.keys(table).sort((a, b) => b.length - a.length).find((s) => w.endsWith(s));
+    if (suffix && MGR0.test(w.slice(0, -suffix.length))) w = w.slice(0, -suffix.length) + table[suffix];
+  });
+
+  // Step 4: remove remaining suffixes when the stem is long enough
+  if ((m = w.match(STEP4))) {
+    if (MGR1.test(m[1])) w = m[1];
+  } else if ((m = w.match(/^(.+?)(s|t)(ion)$/)) && MGR1.test(m[1] + m[2])) {
+    w = m[1] + m[2];
+  }
+
+  // Step 5
+  if ((m = w.match(/^(.+?)e$/))) {
+    const base = m[1];
+    if (MGR1.test(base) || (MEQ1.test(base) && !CVC.test(base))) w = base;
+  }
+  if (/ll$/.test(w) && MGR1.test(w)) w = w.slice(0, -1);
+
+  return firstY ? `y${w.slice(1)}` : w;
+};
+
+/** Normalized key for duplicate detection; phrases stem each word. */
+export const normalizeWord = (word: string): string =>
+  (word.toLowerCase().match(/[a-z]+/g) ?? []).map(stem).join(' ');
+
+export const withNormalizedWord = <T extends Pick<Flashcard, 'word'>>(card: T): T & { normalizedWord: string } =>
+  ({ ...card, normalizedWord: normalizeWord(card.word) });
+
+const familyKey = (card: Flashcard) => card.normalizedWord ?? normalizeWord(card.word);
+
+export interface FamilyCollision {
+  card: Flashcard; // The incoming card
+  match: Flashcard; // The card already holding its word family
+}
+
+/**
+ * Sorts incoming cards against the vault. A card whose word is already there (or earlier in the
+ * batch) is a duplicate. One that only shares a stem is a collision: the stem also joins unrelated
+ * words like "general" and "generous", so the learner decides whether to keep it.
+ */
+export const splitByFamily = (incoming: Flashcard[], existing: Flashcard[]) => {
+  const holders = new Map<string, Flashcard>();
+  existing.forEach((card) => holders.set(familyKey(card), holders.get(familyKey(card)) ?? card));
+  const fresh: Flashcard[] = [];
+  const duplicates: Flashcard[] = [];
+  const collisions: FamilyCollision[] = [];
+  const words = new Set(existing.map((card) => card.word.toLowerCase()));
+  incoming.forEach((card) => {
+    const match = holders.get(familyKey(card));
+    if (words.has(card.word.toLowerCase())) duplicates.push(card);
+    else if (match) collisions.push({ card, match });
+    else {
+      holders.set(familyKey(card), card);
+      fresh.push(card);
+    }
+    words.add(card.word.toLowerCase());
+  });
+  return { fresh, duplicates, collisions };
+};
+
+/** Groups of two or more cards sharing a word family, largest first. */
+export const findDuplicateGroups = (cards: Flashcard[]): Flashcard[][] => {
+  const groups = new Map<string, Flashcard[]>();
+  cards.forEach((card) => {
+    const key = normalizeWord(card.word);
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) ?? []), card]);
+  });
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .sort((a, b) => b.length - a.length || a[0].word.localeCompare(b[0].word));
+};
+
+/** The card whose schedule is kept: most reviews, then highest stability, then the oldest. */
+export const pickPrimary = (group: Flashcard[]): Flashcard =>
+  [...group].sort((a, b) => b.reps - a.reps || b.stability - a.stability || a.createdAt - b.createdAt)[0];
+
+type ScheduledTemplate = keyof NonNullable<Flashcard['templates']>;
+
+/**
+ * Folds a duplicate group into its primary card. The primary keeps its word, meaning and
+ * recognition schedule; every other template takes the most advanced schedule in the group.
+ * Contexts and pronunciation attempts from every card are combined, and a mnemonic or article
+ * link the primary lacks is taken from the first card that has one.
+ */
+export const mergeDuplicates = (group: Flashcard[]): { merged: Flashcard; removed: Flashcard[] } => {
+  const primary = pickPrimary(group);
+  const ordered = [primary, ...group.filter((c) => c !== primary)];
+  const contexts = Array.from(new Set(ordered.map((c) => c.context.trim()).filter(Boolean)));
+  const templates: Flashcard['templates'] = {};
+  ordered.forEach((card) => {
+    (Object.keys(card.templates ?? {}) as ScheduledTemplate[]).forEach((template) => {
+      const schedule = card.templates![template]!;
+      const kept = templates[template];
+      if (!kept || schedule.reps > kept.reps || (schedule.reps === kept.reps && schedule.stability > kept.stability)) {
+        templates[template] = schedule;
+      }
+    });
+  });
+  // Oldest first, like a single card's history; recording again trims it to the cap
+  const attempts = ordered.flatMap((c) => c.pronunciationAttempts ?? []).sort((a, b) => a.at - b.at);
+  const mnemonic = ordered.map((c) => c.mnemonic?.trim()).find(Boolean);
+  const articleId = ordered.map((c) => c.articleId).find(Boolean);
+  return {
+    merged: {
+      ...primary,
+      context: contexts.join('\n'),
+      ...(Object.keys(templates).length > 0 ? { templates } : {}),
+      ...(attempts.length > 0 ? { pronunciationAttempts: attempts } : {}),
+      ...(mnemonic ? { mnemonic } : {}),
+      ...(articleId ? { articleId } : {}),
+      updatedAt: Date.now(),
+    },
+    removed: group.filter((c) => c !== primary),
+  };
+};
+
+/** The removed cards' review logs, moved onto the merged card so history and stats keep them. */
+export const repointReviewLogs = (logs: ReviewLog[], removed: Flashcard[], mergedId: string): ReviewLog[] => {
+  const removedIds = new Set(removed.map((c) => c.id));
+  return logs.filter((log) => removedIds.has(log.cardId)).map((log) => ({ ...log, cardId: mergedId }));
+};
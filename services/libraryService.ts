@@ -0,0 +1,53 @@
+import { Article } from '../types';
+
+// --- Article Library ---
+// Every processed or summarized source becomes an Article, so its summary and the cards it
+// produced can be revisited later.
+
+const TITLE_LENGTH = 80;
+
+export const isUrl = (source: string) => source.trim().startsWith('http');
+
+/** Pasted text has no title of its own; its first line stands in for one. */
+export const titleFromSource = (source: string) => {
+  const trimmed = source.trim();
+  if (isUrl(trimmed)) return trimmed;
+  const firstLine = trimmed.split('\n')[0].trim();
+  return firstLine.length > TITLE_LENGTH ? `${firstLine.slice(0, TITLE_LENGTH)}…` : firstLine;
+};
+
+/**
+ * Looks up the library entry for a source: URLs match on the URL, pasted text on its content,
+ * so processing and summarizing the same article share one entry.
+ */
+export const findArticle = (articles: Article[], source: string): Article | undefined => {
+  const trimmed = source.trim();
+  return isUrl(trimmed)
+    ? articles.find((a) => a.url === trimmed)
+    : articles.find((a) => !a.url && a.content?.trim() === trimmed);
+};
+
+export const createArticle = (source: string, userId: string): Article => {
+  const trimmed = source.trim();
+  const now = Date.now();
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    userId,
+    title: titleFromSource(trimmed),
+    author: '',
+    summary: '',
+    url: isUrl(trimmed) ? trimmed : '',
+    // Firestore rejects undefined fields, so `content` is only set for pasted text
+    ...(isUrl(trimmed) ? {} : { content: trimmed }),
+    cardIds: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/** The article with cards folded into `mergedId` listed once under that id; null if it linked none of them. */
+export const replaceCardIds = (article: Article, removedIds: Set<string>, mergedId: string): Article | null => {
+  if (!article.cardIds.some((id) => removedIds.has(id))) return null;
+  const cardIds = Array.from(new Set(article.cardIds.map((id) => (removedIds.has(id) ? mergedId : id))));
+  return { ...article, cardIds, updatedAt: Date.now() };
+};
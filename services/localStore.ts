@@ -0,0 +1,142 @@
+import { Flashcard, ReviewLog, Article } from '../types';
+import { normalizeWord } from './lemmaService';
+import { upgradeLegacyCard } from './profileService';
+
+// --- IndexedDB Vault ---
+// Local copy of every card and review log the UI reads from, plus the outbox of writes
+// that have not reached the remote backend yet, and a device-wide cache of TTS audio.
+
+const DB_NAME = 'lingoflow';
+const DB_VERSION = 5;
+
+export type OutboxKind = 'card' | 'delete' | 'review' | 'undo' | 'log' | 'article' | 'deleteArticle' | 'session';
+
+export interface CachedAudio {
+  key: string; // Provider, voice and text, see audioService
+  pcm: ArrayBuffer;
+  createdAt: number;
+}
+
+export interface OutboxEntry {
+  seq?: number; // Auto-incremented; flush order
+  userId: string;
+  kind: OutboxKind;
+  cardId?: string;
+  logId?: string;
+  articleId?: string;
+  queuedAt: number;
+}
+
+type StoreName = 'cards' | 'reviewLogs' | 'articles' | 'outbox' | 'meta' | 'audio';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore('cards', { keyPath: 'id' }).createIndex('userId', 'userId');
+          db.createObjectStore('reviewLogs', { keyPath: 'id' }).createIndex('userId', 'userId');
+          db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true }).createIndex('userId', 'userId');
+          db.createObjectStore('meta');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore('articles', { keyPath: 'id' }).createIndex('userId', 'userId');
+        }
+        if (event.oldVersion < 3) {
+          // Word-family lookups for duplicate detection; existing cards are backfilled in place
+          const cards = request.transaction!.objectStore('cards');
+          cards.createIndex('userWord', ['userId', 'normalizedWord']);
+          cards.openCursor().onsuccess = (e) => {
+            const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            cursor.update({ ...cursor.value, normalizedWord: normalizeWord(cursor.value.word) });
+            cursor.continue();
+          };
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore('audio', { keyPath: 'key' });
+        }
+        if (event.oldVersion < 5) {
+          // `vietnameseMeaning` became `meaning` plus `meaningLanguage`
+          request.transaction!.objectStore('cards').openCursor().onsuccess = (e) => {
+            const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            cursor.update(upgradeLegacyCard(cursor.value));
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(name: StoreName, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void) => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(name, mode);
+    const request = fn(tx.objectStore(name));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const listByUser = async <T>(name: StoreName, userId: string): Promise<T[]> => {
+  const db = await openDb();
+  return promisify(db.transaction(name).objectStore(name).index('userId').getAll(userId)) as Promise<T[]>;
+};
+
+const putAll = (name: StoreName, items: unknown[]) =>
+  withStore(name, 'readwrite', (store) => { items.forEach((item) => store.put(item)); });
+
+const removeAll = (name: StoreName, keys: IDBValidKey[]) =>
+  withStore(name, 'readwrite', (store) => { keys.forEach((key) => store.delete(key)); });
+
+export const localStore = {
+  listCards: (userId: string) => listByUser<Flashcard>('cards', userId),
+  getCard: (id: string) => withStore<Flashcard | undefined>('cards', 'readonly', (store) => store.get(id)),
+  // Cards from older clients arrive without a key or in the old meaning shape, so both are fixed up here
+  putCards: (cards: Flashcard[]) => putAll('cards', cards.map(upgradeLegacyCard).map((c) => c.normalizedWord ? c : { ...c, normalizedWord: normalizeWord(c.word) })),
+  findCardsByWord: async (userId: string, normalizedWords: string[]) => {
+    const db = await openDb();
+    const index = db.transaction('cards').objectStore('cards').index('userWord');
+    const matches = await Promise.all(Array.from(new Set(normalizedWords)).map((key) =>
+      promisify(index.getAll([userId, key])) as Promise<Flashcard[]>));
+    return matches.flat();
+  },
+  removeCards: (ids: string[]) => removeAll('cards', ids),
+
+  listReviewLogs: (userId: string) => listByUser<ReviewLog>('reviewLogs', userId),
+  getReviewLog: (id: string) => withStore<ReviewLog | undefined>('reviewLogs', 'readonly', (store) => store.get(id)),
+  putReviewLogs: (logs: ReviewLog[]) => putAll('reviewLogs', logs),
+  removeReviewLogs: (ids: string[]) => removeAll('reviewLogs', ids),
+
+  listArticles: (userId: string) => listByUser<Article>('articles', userId),
+  getArticle: (id: string) => withStore<Article | undefined>('articles', 'readonly', (store) => store.get(id)),
+  putArticles: (articles: Article[]) => putAll('articles', articles),
+  removeArticles: (ids: string[]) => removeAll('articles', ids),
+
+  getAudio: (key: string) => withStore<CachedAudio | undefined>('audio', 'readonly', (store) => store.get(key)),
+  putAudio: (entry: CachedAudio) => putAll('audio', [entry]),
+
+  listOutbox: async (userId: string) =>
+    (await listByUser<OutboxEntry>('outbox', userId)).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0)),
+  enqueue: (entries: OutboxEntry[]) => putAll('outbox', entries),
+  dequeue: (seqs: number[]) => removeAll('outbox', seqs),
+
+  getMeta: <T>(key: string) => withStore<T | undefined>('meta', 'readonly', (store) => store.get(key)),
+  setMeta: (key: string, value: unknown) => withStore('meta', 'readwrite', (store) => { store.put(value, key); }),
+};
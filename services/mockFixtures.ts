@@ -0,0 +1,30 @@
+import { ExtractedWord, SuggestedMaterial } from './aiProvider';
+
+// Canned answers for the mock AI provider. Edit freely; the mock falls back to deriving
+// answers from the input for anything not listed here. Fixture meanings are in FIXTURE_LANGUAGE.
+
+export const FIXTURE_LANGUAGE = 'vi';
+
+export const MOCK_ARTICLE_URL = 'https://example.com/mock-article';
+
+export const MOCK_ARTICLE_TEXT = `Central banks face a precarious balancing act as inflation proves more entrenched than forecast.
+
+Policymakers warn that premature rate cuts could exacerbate price pressures, while prolonged tightening risks a protracted downturn. Analysts say the ambiguity of recent data makes any consensus elusive.`;
+
+export const MOCK_WORDS: ExtractedWord[] = [
+  { word: 'precarious', pronunciation: '/prɪˈkɛə.ri.əs/', meaning: 'bấp bênh', context: 'Central banks face a precarious balancing act as inflation proves more entrenched than forecast.', difficulty: 'C1' },
+  { word: 'entrenched', pronunciation: '/ɪnˈtrɛntʃt/', meaning: 'ăn sâu, khó thay đổi', context: 'Central banks face a precarious balancing act as inflation proves more entrenched than forecast.', difficulty: 'C2' },
+  { word: 'exacerbate', pronunciation: '/ɪɡˈzæs.ə.beɪt/', meaning: 'làm trầm trọng thêm', context: 'Policymakers warn that premature rate cuts could exacerbate price pressures, while prolonged tightening risks a protracted downturn.', difficulty: 'C1' },
+  { word: 'protracted', pronunciation: '/prəˈtræk.tɪd/', meaning: 'kéo dài', context: 'Policymakers warn that premature rate cuts could exacerbate price pressures, while prolonged tightening risks a protracted downturn.', difficulty: 'C2' },
+  { word: 'elusive', pronunciation: '/iˈluː.sɪv/', meaning: 'khó nắm bắt', context: 'Analysts say the ambiguity of recent data makes any consensus elusive.', difficulty: 'C1' },
+];
+
+export const MOCK_SUGGESTIONS: SuggestedMaterial[] = [
+  { title: 'Why inflation is proving sticky', summary: 'A short read on the forces keeping prices high.', url: MOCK_ARTICLE_URL, source: 'Mock Brew' },
+  { title: 'The economics of attention', summary: 'How platforms price the time of their users.', url: 'https://example.com/mock-attention', source: 'Mock Express' },
+];
+
+/** Page text returned for these URLs, in place of a web fetch. */
+export const MOCK_PAGES: Record<string, { title: string; author: string; text: string }> = {
+  [MOCK_ARTICLE_URL]: { title: 'Why inflation is proving sticky', author: 'Mock Author', text: MOCK_ARTICLE_TEXT },
+};
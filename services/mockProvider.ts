@@ -0,0 +1,106 @@
+import { CefrLevel, LearningProfile } from '../types';
+import { AIProvider, AIError, ExtractedWord, isUrlSource } from './aiProvider';
+import { MOCK_WORDS, MOCK_SUGGESTIONS, MOCK_PAGES, FIXTURE_LANGUAGE } from './mockFixtures';
+import { CEFR_LEVELS, cefrRange } from './profileService';
+import { normalizeWord } from './lemmaService';
+import { sentenceAround } from './readerService';
+import { titleFromSource } from './libraryService';
+
+// Deterministic stand-in for a model: the same input always gives the same output, and nothing
+// leaves the browser. Used for offline development and for repeatable runs of the Home flow.
+
+const MIN_WORD_LENGTH = 8;
+
+const sentences = (text: string) => text.match(/[^.!?\n]+[.!?]?/g)?.map((s) => s.trim()).filter(Boolean) ?? [];
+
+const lookupWord = (word: string) => MOCK_WORDS.find((w) => normalizeWord(w.word) === normalizeWord(word));
+
+/** Nearest level inside `levels`, which is a contiguous band. */
+const clampLevel = (level: CefrLevel, levels: CefrLevel[]) =>
+  levels.includes(level) ? level
+    : CEFR_LEVELS.indexOf(level) < CEFR_LEVELS.indexOf(levels[0]) ? levels[0] : levels[levels.length - 1];
+
+/**
+ * Fixture entry for the word when there is one, otherwise a placeholder card; either way quoting
+ * the text, with the meaning in the learner's language and the level inside `levels`.
+ */
+const describeWord = (word: string, text: string, language: string, levels: CefrLevel[]): ExtractedWord => {
+  const context = sentenceAround(text, word);
+  const known = lookupWord(word);
+  const placeholder = `(mock ${language}) ${(known?.word ?? word).toLowerCase()}`;
+  if (known) {
+    return {
+      ...known,
+      context: context || known.context,
+      meaning: language === FIXTURE_LANGUAGE ? known.meaning : placeholder,
+      difficulty: clampLevel(known.difficulty, levels),
+    };
+  }
+  return {
+    word: word.toLowerCase(),
+    pronunciation: '',
+    meaning: placeholder,
+    context,
+    difficulty: word.length >= 10 ? levels[levels.length - 1] : levels[0],
+  };
+};
+
+/** Fixture words found in the text, topped up with its longest other words. */
+const pickWords = (text: string, profile: LearningProfile) => {
+  const tokens = Array.from(new Set(text.match(/[A-Za-z]+/g) ?? []));
+  const known = tokens.filter((t) => lookupWord(t));
+  const rest = tokens
+    .filter((t) => !lookupWord(t) && t.length >= MIN_WORD_LENGTH)
+    .sort((a, b) => b.length - a.length || a.localeCompare(b));
+  const seen = new Set<string>();
+  return [...known, ...rest]
+    .filter((t) => !seen.has(normalizeWord(t)) && seen.add(normalizeWord(t)))
+    .slice(0, profile.wordsPerArticle)
+    .map((t) => describeWord(t, text, profile.nativeLanguage, cefrRange(profile)));
+};
+
+const pageFor = (url: string) => {
+  const page = MOCK_PAGES[url.trim()];
+  if (!page) throw new AIError(`The mock AI provider has no fixture for ${url.trim()}.`, 'unsupported');
+  return page;
+};
+
+const textOf = (content: string) => (isUrlSource(content) ? pageFor(content).text : content);
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  voice: 'none',
+
+  processArticle: async (content, profile, url = "") => {
+    const text = textOf(content);
+    const page = isUrlSource(content) ? pageFor(content) : null;
+    return {
+      title: page?.title ?? titleFromSource(content),
+      author: page?.author ?? '',
+      summary: sentences(text).slice(0, 2).join(' '),
+      words: pickWords(text, profile),
+      url: isUrlSource(content) ? content : url,
+    };
+  },
+
+  processWord: async (word, profile, context = "") => describeWord(word, context, profile.nativeLanguage, CEFR_LEVELS),
+
+  summarizeArticle: async (content) => sentences(textOf(content)).slice(0, 3).map((s) => `- ${s}`).join('\n'),
+
+  getSuggestedMaterial: async () => MOCK_SUGGESTIONS,
+
+  regenerateCardField: async (word, field, language, context = "") => {
+    if (field === 'mnemonic') return `(mock) mnemonic for ${word}`;
+    const entry = describeWord(word, context, language, CEFR_LEVELS);
+    return entry[field] || `(mock) ${field}`;
+  },
+
+  fetchArticleText: async (url) => pageFor(url).text,
+
+  synthesizeSpeech: async () => {
+    throw new AIError("The mock AI provider has no voice.", 'unsupported');
+  },
+
+  // Every take is judged a perfect read, so practice flows can be exercised without a microphone model
+  assessPronunciation: async (_audio, _mimeType, text) => ({ score: 100, transcript: text, issues: [] }),
+};
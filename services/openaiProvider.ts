@@ -0,0 +1,134 @@
+import { AIProvider, AIError, ExtractedWord, ProcessedArticle, isUrlSource, prompts, cleanFieldValue } from './aiProvider';
+import { parseModelJson } from './aiValidation';
+import { CEFR_LEVELS, cefrRange } from './profileService';
+import { CefrLevel } from '../types';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a local model served
+// by Ollama, LM Studio or llama.cpp (e.g. VITE_OPENAI_BASE_URL=http://localhost:11434/v1).
+// These have no web search, so URLs are fetched by the browser and only work where CORS allows.
+const BASE_URL = (import.meta.env.VITE_OPENAI_BASE_URL || '').replace(/\/$/, '');
+const API_KEY = import.meta.env.VITE_OPENAI_API_KEY || '';
+const MODEL = import.meta.env.VITE_OPENAI_MODEL || 'gpt-4o-mini';
+// Speech is optional; local servers rarely offer it and playback falls back to the browser voice
+const TTS_MODEL = import.meta.env.VITE_OPENAI_TTS_MODEL || '';
+
+export const isOpenAIConfigured = !!BASE_URL;
+
+const wordShape = (levels: CefrLevel[]) =>
+  `{"word": string, "pronunciation": string, "meaning": string, "context": string, "difficulty": ${levels.map((l) => `"${l}"`).join(' | ')}}`;
+
+const post = async (path: string, body: unknown) => {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    // The status lets the retry logic tell a bad key from a busy server
+    throw Object.assign(new Error(error?.error?.message || `Model request failed (${response.status})`), { status: response.status });
+  }
+  return response;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** The first choice's text; a null content (a refusal) reads as an empty reply. */
+const replyText = (data: unknown): string => {
+  const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+  const message = isRecord(choice) ? choice.message : undefined;
+  const content = isRecord(message) ? message.content : undefined;
+  if (content === null) return '';
+  if (typeof content !== 'string') {
+    throw new AIError("The AI server's reply is not in the chat completions format.", 'malformed');
+  }
+  return content;
+};
+
+const complete = async (prompt: string, json: boolean = false) => {
+  const response = await post('/chat/completions', {
+    model: MODEL,
+    messages: [{ role: 'user', content: prompt }],
+    ...(json ? { response_format: { type: 'json_object' } } : {}),
+  });
+  return replyText(await response.json());
+};
+
+/**
+ * Asks for a JSON object matching `shape`; local models often wrap it in a code fence or prose
+ * regardless. Its fields are checked by aiValidation, not here.
+ */
+const completeJson = async (prompt: string, shape: string): Promise<object> => {
+  const data = parseModelJson(await complete(`${prompt}\n\nRespond with JSON only, shaped as: ${shape}`, true));
+  if (!isRecord(data)) throw new AIError("The AI returned an unreadable response.", 'malformed');
+  return data;
+};
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fetchArticleText = async (url: string) => {
+  let html: string;
+  try {
+    html = await (await fetch(url)).text();
+  } catch {
+    throw new AIError("This AI provider cannot open that URL. Paste the article text instead.", 'unsupported');
+  }
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const root = doc.querySelector('article') || doc.body;
+  const paragraphs = Array.from(root.querySelectorAll('p'))
+    .map((p) => (p.textContent || '').trim())
+    .filter(Boolean);
+  return paragraphs.join('\n\n');
+};
+
+/** Local models cannot browse, so a URL is swapped for the text behind it before prompting. */
+const resolveSource = async (content: string) => (isUrlSource(content) ? fetchArticleText(content.trim()) : content);
+
+export const openaiProvider: AIProvider = {
+  id: 'openai',
+  voice: 'alloy',
+
+  processArticle: async (content, profile, url = "") => {
+    const data = await completeJson(
+      prompts.processArticle(await resolveSource(content), profile),
+      `{"title": string, "author": string, "summary": string, "words": [${wordShape(cefrRange(profile))}]}`,
+    );
+    return { ...data, url: isUrlSource(content) ? content : url } as ProcessedArticle;
+  },
+
+  processWord: async (word, profile, context = "") =>
+    await completeJson(prompts.processWord(word, context, profile), wordShape(CEFR_LEVELS)) as ExtractedWord,
+
+  summarizeArticle: async (content) => complete(prompts.summarizeArticle(await resolveSource(content))),
+
+  getSuggestedMaterial: async () => {
+    throw new AIError("Suggestions need web search, which this AI provider does not have.", 'unsupported');
+  },
+
+  regenerateCardField: async (word, field, language, context = "") =>
+    cleanFieldValue(await complete(prompts.regenerateCardField(word, field, language, context))),
+
+  fetchArticleText,
+
+  synthesizeSpeech: async (text) => {
+    if (!TTS_MODEL) throw new AIError("No speech model is configured for this AI provider.", 'unsupported');
+    // OpenAI's raw PCM output is 24kHz mono 16-bit, the same format Gemini returns
+    const response = await post('/audio/speech', { model: TTS_MODEL, input: text, voice: openaiProvider.voice, response_format: 'pcm' });
+    return toBase64(await response.arrayBuffer());
+  },
+
+  assessPronunciation: async () => {
+    throw new AIError("This AI provider cannot listen to recordings. Choose another assessor.", 'unsupported');
+  },
+};
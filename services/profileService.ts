@@ -0,0 +1,85 @@
+import { CefrLevel, Flashcard, LearningProfile } from '../types';
+
+// --- Learning Profile ---
+// The learner's language, level band and interests. Extraction prompts, response schemas and
+// the checks on the model's answer are all built from it.
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+// Languages offered for card meanings, by ISO 639-1 code
+export const LANGUAGES: Record<string, string> = {
+  ar: 'Arabic',
+  zh: 'Chinese',
+  fr: 'French',
+  de: 'German',
+  hi: 'Hindi',
+  id: 'Indonesian',
+  it: 'Italian',
+  ja: 'Japanese',
+  ko: 'Korean',
+  pl: 'Polish',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  es: 'Spanish',
+  th: 'Thai',
+  tr: 'Turkish',
+  uk: 'Ukrainian',
+  vi: 'Vietnamese',
+};
+
+export const SUGGESTED_DOMAINS = ['AI', 'Tech', 'Neuroscience', 'Economics', 'Business', 'Politics', 'Science', 'Health', 'Culture', 'Sport'];
+
+export const MIN_WORDS_PER_ARTICLE = 3;
+export const MAX_WORDS_PER_ARTICLE = 20;
+
+// The profile every account had before it was configurable
+export const DEFAULT_PROFILE: LearningProfile = {
+  nativeLanguage: 'vi',
+  cefrMin: 'C1',
+  cefrMax: 'C2',
+  domains: ['AI', 'Tech', 'Neuroscience', 'Economics'],
+  wordsPerArticle: 8,
+  includePhrases: false,
+};
+
+export const languageName = (code: string) => LANGUAGES[code] ?? code;
+
+/** Levels from `cefrMin` to `cefrMax` inclusive. */
+export const cefrRange = (profile: LearningProfile) =>
+  CEFR_LEVELS.slice(CEFR_LEVELS.indexOf(profile.cefrMin), CEFR_LEVELS.indexOf(profile.cefrMax) + 1);
+
+export const isCefrLevel = (value: unknown): value is CefrLevel => CEFR_LEVELS.includes(value as CefrLevel);
+
+/** A stored profile merged over the defaults, with out-of-range values put back in range. */
+export const parseProfile = (stored: string | null): LearningProfile => {
+  let raw: Partial<LearningProfile> = {};
+  try {
+    raw = stored ? JSON.parse(stored) : {};
+  } catch {
+    // A corrupt entry falls back to the defaults
+  }
+  const cefrMin = isCefrLevel(raw.cefrMin) ? raw.cefrMin : DEFAULT_PROFILE.cefrMin;
+  const cefrMax = isCefrLevel(raw.cefrMax) ? raw.cefrMax : DEFAULT_PROFILE.cefrMax;
+  const [low, high] = CEFR_LEVELS.indexOf(cefrMin) <= CEFR_LEVELS.indexOf(cefrMax) ? [cefrMin, cefrMax] : [cefrMax, cefrMin];
+  const words = Number(raw.wordsPerArticle);
+  return {
+    nativeLanguage: typeof raw.nativeLanguage === 'string' && raw.nativeLanguage in LANGUAGES ? raw.nativeLanguage : DEFAULT_PROFILE.nativeLanguage,
+    cefrMin: low,
+    cefrMax: high,
+    domains: Array.isArray(raw.domains) ? raw.domains.map(String).map((d) => d.trim()).filter(Boolean) : DEFAULT_PROFILE.domains,
+    wordsPerArticle: Number.isFinite(words)
+      ? Math.min(MAX_WORDS_PER_ARTICLE, Math.max(MIN_WORDS_PER_ARTICLE, Math.round(words)))
+      : DEFAULT_PROFILE.wordsPerArticle,
+    includePhrases: typeof raw.includePhrases === 'boolean' ? raw.includePhrases : DEFAULT_PROFILE.includePhrases,
+  };
+};
+
+/**
+ * Cards made before meanings were language-tagged carry a `vietnameseMeaning` field instead of
+ * `meaning`; they are rewritten to the current shape as they enter the local vault.
+ */
+export const upgradeLegacyCard = (card: Flashcard): Flashcard => {
+  const { vietnameseMeaning, ...rest } = card as Flashcard & { vietnameseMeaning?: string };
+  if (vietnameseMeaning === undefined) return card;
+  return { ...rest, meaning: card.meaning ?? vietnameseMeaning, meaningLanguage: card.meaningLanguage ?? 'vi' };
+};
@@ -0,0 +1,100 @@
+import { Flashcard, PronunciationAttempt, PronunciationIssue } from '../types';
+import { currentProvider } from './ai';
+
+// --- Pronunciation Practice ---
+// Records the learner through the microphone and scores the take with a pluggable assessor.
+
+export interface PronunciationAssessment {
+  score: number; // 0-100
+  transcript: string;
+  issues: PronunciationIssue[];
+}
+
+export interface PronunciationAssessor {
+  assess(audio: Blob, text: string, ipa: string): Promise<PronunciationAssessment>;
+}
+
+export interface Recording {
+  stop(): Promise<Blob>;
+  cancel(): void;
+}
+
+// Attempts kept per card; enough to chart progress without bloating the synced document
+const MAX_ATTEMPTS = 20;
+
+const toBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/** Asks the active AI provider to listen to the take. */
+export const modelAssessor: PronunciationAssessor = {
+  assess: async (audio, text, ipa) => {
+    const result = await currentProvider().assessPronunciation(await toBase64(audio), audio.type || 'audio/webm', text, ipa);
+    return {
+      score: Math.max(0, Math.min(100, Math.round(Number(result.score) || 0))),
+      transcript: String(result.transcript || ''),
+      // Optional fields are dropped rather than left undefined, which Firestore rejects
+      issues: (Array.isArray(result.issues) ? result.issues : []).map((issue: PronunciationIssue) => ({
+        segment: String(issue.segment),
+        expected: String(issue.expected),
+        heard: String(issue.heard),
+        ...(issue.tip ? { tip: String(issue.tip) } : {}),
+      })),
+    };
+  },
+};
+
+/** Offline stand-in: any take long enough to hold speech scores full marks, with no issues. */
+export const localAssessor: PronunciationAssessor = {
+  assess: async (audio, text) => {
+    const heard = audio.size > 2000;
+    return { score: heard ? 100 : 0, transcript: heard ? text : '', issues: [] };
+  },
+};
+
+export const assessor: PronunciationAssessor =
+  import.meta.env.VITE_PRONUNCIATION_ASSESSOR === 'local' ? localAssessor : modelAssessor;
+
+/** Starts recording from the microphone; the returned handle stops it and yields the audio. */
+export const startRecording = async (): Promise<Recording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const release = () => stream.getTracks().forEach((track) => track.stop());
+  recorder.start();
+  return {
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          release();
+          resolve(new Blob(chunks, { type: recorder.mimeType }));
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = release;
+      recorder.stop();
+    },
+  };
+};
+
+/** Appends an attempt to the card's history, dropping the oldest beyond the cap. */
+export const recordAttempt = (card: Flashcard, attempt: PronunciationAttempt): Flashcard => ({
+  ...card,
+  pronunciationAttempts: [...(card.pronunciationAttempts ?? []), attempt].slice(-MAX_ATTEMPTS),
+  updatedAt: Date.now(),
+});
+
+/** Latest score and its change against the previous attempt at the same target. */
+export const pronunciationTrend = (card: Flashcard) => {
+  const attempts = card.pronunciationAttempts ?? [];
+  const latest = attempts[attempts.length - 1];
+  if (!latest) return null;
+  const previous = [...attempts.slice(0, -1)].reverse().find((a) => a.target === latest.target);
+  return { latest, change: previous ? latest.score - previous.score : null, count: attempts.length };
+};
@@ -0,0 +1,132 @@
+import { Flashcard, CardState, CardTemplate, StudyItem } from '../types';
+import { CARD_TEMPLATES, getDueItems, getTemplateCard } from './templateService';
+import { getRetrievability } from './srsService';
+import { dayKey } from './statsService';
+
+// --- Study Queue ---
+// Builds the day's study order from the due items: cards in (re)learning steps first, then
+// reviews and new cards up to the learner's daily limits. The same vault, limits and counts
+// always give the same queue.
+
+export type NewCardMix = 'mix' | 'newFirst' | 'reviewsFirst';
+
+export interface DailyLimits {
+  newPerDay: number;
+  reviewsPerDay: number;
+  newMix: NewCardMix; // Where new cards sit among the reviews
+}
+
+/** What has already been studied today; reset when the local day changes. */
+export interface DailyCounts {
+  day: string; // dayKey of the day the counts belong to
+  newSeen: number;
+  reviewsDone: number;
+}
+
+export const DEFAULT_LIMITS: DailyLimits = { newPerDay: 20, reviewsPerDay: 200, newMix: 'mix' };
+
+export const NEW_MIX_LABELS: Record<NewCardMix, string> = {
+  mix: 'Mixed In',
+  newFirst: 'New First',
+  reviewsFirst: 'Reviews First',
+};
+
+export interface StudyQueue {
+  items: StudyItem[];
+  learning: number;
+  reviews: number;
+  newCards: number;
+}
+
+export const emptyCounts = (now: number = Date.now()): DailyCounts => ({ day: dayKey(now), newSeen: 0, reviewsDone: 0 });
+
+/** Stored counts if they are from today, otherwise a fresh day. */
+export const countsForToday = (stored: DailyCounts | null, now: number = Date.now()): DailyCounts =>
+  stored && stored.day === dayKey(now) ? stored : emptyCounts(now);
+
+/**
+ * Counts one rating against the day's limits, judged by the state the card was in before it.
+ * Learning steps are never limited, so they are not counted.
+ */
+export const countRating = (counts: DailyCounts, before: Flashcard, now: number = Date.now()): DailyCounts => {
+  const today = countsForToday(counts, now);
+  if (before.state === CardState.NEW) return { ...today, newSeen: today.newSeen + 1 };
+  if (before.state === CardState.REVIEW) return { ...today, reviewsDone: today.reviewsDone + 1 };
+  return today;
+};
+
+/** Merges the two lists so each stays spread evenly through the result, starting with a review. */
+const interleave = (reviews: StudyItem[], newItems: StudyItem[]) => {
+  const merged: StudyItem[] = [];
+  let r = 0;
+  let n = 0;
+  while (r < reviews.length || n < newItems.length) {
+    const takeNew = n < newItems.length &&
+      (r >= reviews.length || (n + 1) / (newItems.length + 1) <= (r + 1) / (reviews.length + 1));
+    merged.push(takeNew ? newItems[n++] : reviews[r++]);
+  }
+  return merged;
+};
+
+const templateOrder = (template: CardTemplate) => CARD_TEMPLATES.indexOf(template);
+
+export const buildQueue = (
+  cards: Flashcard[],
+  templates: CardTemplate[],
+  limits: DailyLimits,
+  counts: DailyCounts,
+  now: number = Date.now()
+): StudyQueue => {
+  const byId = new Map(cards.map((c) => [c.id, c]));
+  const due = getDueItems(cards, templates, now).map((item) => ({
+    item,
+    card: getTemplateCard(byId.get(item.cardId)!, item.template),
+  }));
+  // Ties fall back to the card id and template so the order never depends on load order
+  const stable = (a: typeof due[number], b: typeof due[number]) =>
+    a.item.cardId.localeCompare(b.item.cardId) || templateOrder(a.item.template) - templateOrder(b.item.template);
+
+  const learning = due
+    .filter(({ card }) => card.state === CardState.LEARNING || card.state === CardState.RELEARNING)
+    .sort((a, b) => a.card.due - b.card.due || stable(a, b));
+  // Lowest retrievability first: the reviews most at risk of being forgotten
+  const reviews = due
+    .filter(({ card }) => card.state === CardState.REVIEW)
+    .map((entry) => ({ ...entry, retrievability: getRetrievability(entry.card, now) }))
+    .sort((a, b) => a.retrievability - b.retrievability || a.card.due - b.card.due || stable(a, b))
+    .slice(0, Math.max(0, limits.reviewsPerDay - counts.reviewsDone));
+  const newItems = due
+    .filter(({ card }) => card.state === CardState.NEW)
+    .sort((a, b) => a.card.createdAt - b.card.createdAt || stable(a, b))
+    .slice(0, Math.max(0, limits.newPerDay - counts.newSeen));
+
+  const reviewItems = reviews.map((r) => r.item);
+  const newStudyItems = newItems.map((n) => n.item);
+  const rest = limits.newMix === 'newFirst' ? [...newStudyItems, ...reviewItems]
+    : limits.newMix === 'reviewsFirst' ? [...reviewItems, ...newStudyItems]
+    : interleave(reviewItems, newStudyItems);
+
+  return {
+    items: [...learning.map((l) => l.item), ...rest],
+    learning: learning.length,
+    reviews: reviewItems.length,
+    newCards: newStudyItems.length,
+  };
+};
+
+/** Stored limits merged over the defaults, with counts kept non-negative whole numbers. */
+export const parseLimits = (stored: string | null): DailyLimits => {
+  let raw: Partial<DailyLimits> = {};
+  try {
+    raw = stored ? JSON.parse(stored) : {};
+  } catch {
+    // A corrupt entry falls back to the defaults
+  }
+  const count = (value: unknown, fallback: number) =>
+    Number.isFinite(Number(value)) && Number(value) >= 0 ? Math.round(Number(value)) : fallback;
+  return {
+    newPerDay: count(raw.newPerDay, DEFAULT_LIMITS.newPerDay),
+    reviewsPerDay: count(raw.reviewsPerDay, DEFAULT_LIMITS.reviewsPerDay),
+    newMix: raw.newMix && raw.newMix in NEW_MIX_LABELS ? raw.newMix : DEFAULT_LIMITS.newMix,
+  };
+};
@@ -0,0 +1,65 @@
+import { Flashcard, CardState } from '../types';
+import { normalizeWord } from './lemmaService';
+
+// --- Reader ---
+// Splits article text into segments so words already in the vault can be highlighted in place.
+
+export interface ReaderSegment {
+  text: string;
+  card?: Flashcard; // Set when the segment spells a vault word or phrase
+}
+
+const WORD = /[A-Za-z\u00C0-\u024F]+(?:['\u2019-][A-Za-z\u00C0-\u024F]+)*/g;
+
+/** Highlight colour per SRS state, shared by the reader text and its legend. */
+export const STATE_HIGHLIGHTS: Record<CardState, string> = {
+  [CardState.NEW]: 'bg-[#00F3FF]/15 text-[#00F3FF]',
+  [CardState.LEARNING]: 'bg-amber-400/15 text-amber-300',
+  [CardState.REVIEW]: 'bg-[#39FF14]/15 text-[#39FF14]',
+  [CardState.RELEARNING]: 'bg-red-500/15 text-red-400',
+};
+
+/**
+ * Splits a paragraph into plain and highlighted segments. Words are matched by word family, so
+ * "mitigated" finds the "mitigate" card, and phrases word by word, so "carbon footprint" is found
+ * across any spacing or line break; the longest match wins.
+ */
+export const segmentText = (text: string, cards: Flashcard[]): ReaderSegment[] => {
+  const byPhrase = new Map<string, Flashcard>();
+  cards.forEach((card) => {
+    const key = normalizeWord(card.word);
+    if (key && !byPhrase.has(key)) byPhrase.set(key, card);
+  });
+  const maxWords = Math.max(1, ...Array.from(byPhrase.keys()).map((k) => k.split(' ').length));
+  const tokens = Array.from(text.matchAll(WORD)).map((m) => ({ word: normalizeWord(m[0]), start: m.index!, end: m.index! + m[0].length }));
+
+  const segments: ReaderSegment[] = [];
+  let cursor = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    for (let n = Math.min(maxWords, tokens.length - i); n >= 1; n--) {
+      const card = byPhrase.get(tokens.slice(i, i + n).map((t) => t.word).join(' '));
+      if (!card) continue;
+      const start = tokens[i].start;
+      const end = tokens[i + n - 1].end;
+      if (start > cursor) segments.push({ text: text.slice(cursor, start) });
+      segments.push({ text: text.slice(start, end), card });
+      cursor = end;
+      i += n - 1;
+      break;
+    }
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return segments;
+};
+
+export const splitParagraphs = (text: string) =>
+  text.split(/\n\s*\n|\r?\n/).map((p) => p.trim()).filter(Boolean);
+
+/** The sentence around a selected phrase, used as the card's context. */
+export const sentenceAround = (text: string, phrase: string) => {
+  const index = text.toLowerCase().indexOf(phrase.toLowerCase());
+  if (index < 0) return '';
+  const before = text.slice(0, index).search(/[^.!?\n]*$/);
+  const afterMatch = text.slice(index + phrase.length).match(/^[^.!?\n]*[.!?]?/);
+  return text.slice(before, index + phrase.length + (afterMatch?.[0].length ?? 0)).trim();
+};
@@ -0,0 +1,35 @@
+import { Flashcard, ReviewLog, Article, User, StudySession } from '../types';
+
+// --- Storage Abstraction ---
+// Pages talk to these interfaces only; the concrete backend is picked once at boot.
+
+export interface FlashcardRepository {
+  listCards(userId: string): Promise<Flashcard[]>;
+  saveCard(card: Flashcard): Promise<void>;
+  saveCards(cards: Flashcard[]): Promise<void>;
+  deleteCard(cardId: string): Promise<void>;
+  /** Cards whose `normalizedWord` is one of the given keys, answered from an index. */
+  findCardsByWord(userId: string, normalizedWords: string[]): Promise<Flashcard[]>;
+  listReviewLogs(userId: string): Promise<ReviewLog[]>;
+  saveReviewLogs(logs: ReviewLog[]): Promise<void>;
+  /** Persists the rescheduled card and its log entry together, so history never drifts from state. */
+  recordReview(card: Flashcard, log: ReviewLog): Promise<void>;
+  /** Takes back a recorded review: restores the card as it was and deletes the log entry. */
+  undoReview(card: Flashcard, logId: string): Promise<void>;
+  listArticles(userId: string): Promise<Article[]>;
+  saveArticle(article: Article): Promise<void>;
+  deleteArticle(articleId: string): Promise<void>;
+  /** The user's unfinished study session, one per user across devices. */
+  getStudySession(userId: string): Promise<StudySession | null>;
+  saveStudySession(session: StudySession): Promise<void>;
+  clearStudySession(userId: string): Promise<void>;
+}
+
+export interface AuthService {
+  onAuthStateChanged(callback: (user: User | null) => void): () => void;
+  signIn(email: string, password: string): Promise<void>;
+  signUp(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+}
+
+export type StorageBackend = 'firebase' | 'server';
@@ -0,0 +1,122 @@
+import { Flashcard, ReviewLog, Article, User, StudySession } from '../types';
+import { FlashcardRepository, AuthService } from './repository';
+
+// Talks to the self-hosted Express server in /server. Same-origin by default; the Vite dev
+// server proxies /api through to it.
+const API_URL = (import.meta.env.VITE_API_URL || '').replace(/\/$/, '');
+const TOKEN_KEY = 'lingoflow_server_token';
+
+const listeners = new Set<(user: User | null) => void>();
+let currentUser: User | null = null;
+
+const setSession = (user: User | null) => {
+  currentUser = user;
+  if (user?.token) localStorage.setItem(TOKEN_KEY, user.token);
+  else localStorage.removeItem(TOKEN_KEY);
+  listeners.forEach((listener) => listener(user));
+};
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const token = currentUser?.token || localStorage.getItem(TOKEN_KEY);
+  const response = await fetch(`${API_URL}/api${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init.headers,
+    },
+  });
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    // An expired or revoked token means the session is gone; drop back to the login screen
+    if (response.status === 401 && currentUser) setSession(null);
+    throw new Error(body?.error || `Request failed (${response.status})`);
+  }
+  return body as T;
+};
+
+export const serverRepository: FlashcardRepository = {
+  listCards: () => request<Flashcard[]>('/cards'),
+
+  saveCard: async (card) => {
+    await request(`/cards/${encodeURIComponent(card.id)}`, { method: 'PUT', body: JSON.stringify(card) });
+  },
+
+  saveCards: async (cards) => {
+    await request('/cards', { method: 'PUT', body: JSON.stringify({ cards }) });
+  },
+
+  deleteCard: async (cardId) => {
+    await request(`/cards/${encodeURIComponent(cardId)}`, { method: 'DELETE' });
+  },
+
+  findCardsByWord: async (_userId, normalizedWords) => {
+    if (normalizedWords.length === 0) return [];
+    return request<Flashcard[]>('/cards/lookup', { method: 'POST', body: JSON.stringify({ words: normalizedWords }) });
+  },
+
+  listReviewLogs: () => request<ReviewLog[]>('/review-logs'),
+
+  saveReviewLogs: async (logs) => {
+    await request('/review-logs', { method: 'PUT', body: JSON.stringify({ logs }) });
+  },
+
+  recordReview: async (card, log) => {
+    await request('/reviews', { method: 'POST', body: JSON.stringify({ card, log }) });
+  },
+
+  undoReview: async (card, logId) => {
+    await request('/reviews/undo', { method: 'POST', body: JSON.stringify({ card, logId }) });
+  },
+
+  listArticles: () => request<Article[]>('/articles'),
+
+  saveArticle: async (article) => {
+    await request(`/articles/${encodeURIComponent(article.id)}`, { method: 'PUT', body: JSON.stringify(article) });
+  },
+
+  deleteArticle: async (articleId) => {
+    await request(`/articles/${encodeURIComponent(articleId)}`, { method: 'DELETE' });
+  },
+
+  getStudySession: () => request<StudySession | null>('/study-session'),
+
+  saveStudySession: async (session) => {
+    await request('/study-session', { method: 'PUT', body: JSON.stringify(session) });
+  },
+
+  clearStudySession: async () => {
+    await request('/study-session', { method: 'DELETE' });
+  },
+};
+
+const authenticate = async (path: string, email: string, password: string) => {
+  const { user, token } = await request<{ user: User; token: string }>(path, {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+  setSession({ ...user, token });
+};
+
+export const serverAuthService: AuthService = {
+  onAuthStateChanged: (callback) => {
+    listeners.add(callback);
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (currentUser) {
+      callback(currentUser);
+    } else if (token) {
+      request<{ user: User }>('/auth/me')
+        .then(({ user }) => setSession({ ...user, token }))
+        .catch(() => setSession(null));
+    } else {
+      callback(null);
+    }
+    return () => { listeners.delete(callback); };
+  },
+
+  signIn: (email, password) => authenticate('/auth/login', email, password),
+
+  signUp: (email, password) => authenticate('/auth/register', email, password),
+
+  signOut: async () => setSession(null),
+};
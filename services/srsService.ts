@@ -1,10 +1,127 @@
+import { Flashcard, Difficulty, CardState, ReviewLog, CardTemplate } from '../types';
+import { normalizeWord } from './lemmaService';
 
-import { Flashcard, Difficulty } from '../types';
+// --- FSRS Memory Model ---
+// Implements the FSRS-5 formulas: stability (S) is the number of days until
+// retrievability (R) drops to 90%, difficulty (D) lives in [1, 10].
+
+export interface SrsParams {
+  requestRetention: number; // Target probability of recall when a card comes due
+  maximumInterval: number; // Upper bound on any interval, in days
+  learningSteps: number[]; // Minutes between same-session repeats of a new card
+  relearningSteps: number[]; // Minutes between same-session repeats of a lapsed card
+  w: number[];
+}
+
+export const DEFAULT_SRS_PARAMS: SrsParams = {
+  requestRetention: 0.9,
+  maximumInterval: 36500,
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  w: [
+    0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192,
+    1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621
+  ]
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Chosen so that R(S, S) = 0.9
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const initStability = (w: number[], rating: Difficulty) => Math.max(w[rating - 1], 0.1);
+
+const initDifficulty = (w: number[], rating: Difficulty) =>
+  clamp(w[4] - Math.exp(w[5] * (rating - 1)) + 1, 1, 10);
+
+const nextDifficulty = (w: number[], d: number, rating: Difficulty) => {
+  const delta = -w[6] * (rating - 3);
+  const damped = d + delta * (10 - d) / 9;
+  // Mean reversion towards the difficulty of a card first rated EASY
+  const reverted = w[7] * initDifficulty(w, Difficulty.EASY) + (1 - w[7]) * damped;
+  return clamp(reverted, 1, 10);
+};
+
+const nextRecallStability = (w: number[], d: number, s: number, r: number, rating: Difficulty) => {
+  const hardPenalty = rating === Difficulty.HARD ? w[15] : 1;
+  const easyBonus = rating === Difficulty.EASY ? w[16] : 1;
+  return s * (1 + Math.exp(w[8]) * (11 - d) * Math.pow(s, -w[9]) * (Math.exp(w[10] * (1 - r)) - 1) * hardPenalty * easyBonus);
+};
+
+const nextForgetStability = (w: number[], d: number, s: number, r: number) => {
+  const forgotten = w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r));
+  // A lapse can never leave the memory stronger than it was
+  return Math.min(forgotten, s);
+};
+
+const nextShortTermStability = (w: number[], s: number, rating: Difficulty) =>
+  s * Math.exp(w[17] * (rating - 3 + w[18]));
+
+const forgettingCurve = (elapsedDays: number, stability: number) =>
+  Math.pow(1 + FACTOR * elapsedDays / stability, DECAY);
+
+const nextIntervalDays = (stability: number, params: SrsParams) => {
+  const interval = stability / FACTOR * (Math.pow(params.requestRetention, 1 / DECAY) - 1);
+  return clamp(Math.round(interval), 1, params.maximumInterval);
+};
+
+/**
+ * Cards written by the old multiplier scheduler carry zero stability/difficulty.
+ * Seed them from their last interval so their history is not thrown away.
+ */
+const normalizeMemory = (card: Flashcard, w: number[]) => {
+  const stability = card.stability > 0 ? card.stability : Math.max(card.scheduledDays, initStability(w, Difficulty.GOOD));
+  const difficulty = card.difficultyRating > 0 ? card.difficultyRating : initDifficulty(w, Difficulty.GOOD);
+  return { stability, difficulty };
+};
+
+const getLastReview = (card: Flashcard) =>
+  card.lastReview ?? card.due - card.scheduledDays * DAY_MS;
+
+/** Parses a step list such as "1m 10m 1h" into minutes. Unparseable tokens are dropped. */
+export const parseSteps = (input: string): number[] =>
+  input.split(/[\s,]+/).flatMap((token) => {
+    const match = token.trim().match(/^(\d+(?:\.\d+)?)([mhd]?)$/i);
+    if (!match) return [];
+    const unit = match[2].toLowerCase();
+    const value = parseFloat(match[1]) * (unit === 'h' ? 60 : unit === 'd' ? 24 * 60 : 1);
+    return value > 0 ? [value] : [];
+  });
+
+export const formatSteps = (steps: number[]): string =>
+  steps.map((m) => (m % (24 * 60) === 0 ? `${m / (24 * 60)}d` : m % 60 === 0 ? `${m / 60}h` : `${m}m`)).join(' ');
+
+/** Short label for the wait until a card is due again, e.g. "10m", "3d", "1.5y". */
+export const formatInterval = (ms: number): string => {
+  const minutes = Math.max(0, ms) / 60000;
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h`;
+  const days = minutes / (24 * 60);
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 36.5) / 10}y`;
+};
+
+/** True while the card is cycling through sub-day steps and should be re-shown this session. */
+export const isInSteps = (card: Flashcard): boolean =>
+  (card.state === CardState.LEARNING || card.state === CardState.RELEARNING) && card.scheduledDays === 0;
+
+/** Probability that the card is still recalled at `now`, in [0, 1]. */
+export const getRetrievability = (card: Flashcard, now: number = Date.now()): number => {
+  if (card.state === CardState.NEW) return 0;
+  const { stability } = normalizeMemory(card, DEFAULT_SRS_PARAMS.w);
+  const elapsed = Math.max(0, (now - getLastReview(card)) / DAY_MS);
+  return forgettingCurve(elapsed, stability);
+};
 
 export const initializeCard = (word: any, source: string, userId: string): Flashcard => {
   const now = Date.now();
   return {
     ...word,
+    normalizedWord: normalizeWord(word.word ?? ''),
     id: Math.random().toString(36).substr(2, 9),
     userId,
     source,
@@ -16,32 +133,138 @@ export const initializeCard = (word: any, source: string, userId: string): Flash
     elapsedDays: 0,
     scheduledDays: 0,
     reps: 0,
-    state: 0, // 0: New, 1: Learning, 2: Review, 3: Relearning
+    lapses: 0,
+    state: CardState.NEW,
   };
 };
 
-export const scheduleReview = (card: Flashcard, rating: Difficulty): Flashcard => {
-  const newCard = { ...card };
-  newCard.reps += 1;
-  newCard.updatedAt = Date.now(); // Update timestamp every time a review happens
-  
-  let days = 1;
-  if (rating === Difficulty.AGAIN) {
-    days = 0;
-    newCard.state = 3;
-  } else if (rating === Difficulty.HARD) {
-    days = Math.max(1, card.scheduledDays * 1.2);
-    newCard.state = 2;
-  } else if (rating === Difficulty.GOOD) {
-    days = Math.max(1, (card.scheduledDays || 1) * 2.5);
-    newCard.state = 2;
-  } else if (rating === Difficulty.EASY) {
-    days = Math.max(1, (card.scheduledDays || 1) * 4);
-    newCard.state = 2;
-  }
-
-  newCard.scheduledDays = Math.round(days);
-  newCard.due = Date.now() + newCard.scheduledDays * 24 * 60 * 60 * 1000;
-  
-  return newCard;
+/**
+ * Computes the card that would result from each rating, without persisting anything.
+ * Intervals are forced into HARD <= GOOD < EASY order so the buttons never contradict each other.
+ */
+export const previewReview = (
+  card: Flashcard,
+  now: number = Date.now(),
+  params: SrsParams = DEFAULT_SRS_PARAMS
+): Record<Difficulty, Flashcard> => {
+  const { w } = params;
+  const isNew = card.state === CardState.NEW;
+  const { stability, difficulty } = normalizeMemory(card, w);
+  const elapsedDays = isNew ? 0 : Math.max(0, (now - getLastReview(card)) / DAY_MS);
+  const retrievability = isNew ? 0 : forgettingCurve(elapsedDays, stability);
+
+  const memoryFor = (rating: Difficulty) => {
+    if (isNew) return { s: initStability(w, rating), d: initDifficulty(w, rating) };
+    const d = nextDifficulty(w, difficulty, rating);
+    // Same-day repeats barely move long-term memory, so they use the short-term formula
+    if (elapsedDays < 1) return { s: nextShortTermStability(w, stability, rating), d };
+    if (rating === Difficulty.AGAIN) return { s: nextForgetStability(w, difficulty, stability, retrievability), d };
+    return { s: nextRecallStability(w, difficulty, stability, retrievability, rating), d };
+  };
+
+  const memory = {
+    [Difficulty.AGAIN]: memoryFor(Difficulty.AGAIN),
+    [Difficulty.HARD]: memoryFor(Difficulty.HARD),
+    [Difficulty.GOOD]: memoryFor(Difficulty.GOOD),
+    [Difficulty.EASY]: memoryFor(Difficulty.EASY),
+  };
+
+  let hardIvl = nextIntervalDays(memory[Difficulty.HARD].s, params);
+  let goodIvl = nextIntervalDays(memory[Difficulty.GOOD].s, params);
+  hardIvl = Math.min(hardIvl, goodIvl);
+  goodIvl = Math.max(goodIvl, hardIvl + 1);
+  const easyIvl = Math.max(nextIntervalDays(memory[Difficulty.EASY].s, params), goodIvl + 1);
+  const intervals = {
+    [Difficulty.AGAIN]: nextIntervalDays(memory[Difficulty.AGAIN].s, params),
+    [Difficulty.HARD]: hardIvl,
+    [Difficulty.GOOD]: goodIvl,
+    [Difficulty.EASY]: easyIvl,
+  };
+
+  const build = (rating: Difficulty): Flashcard => {
+    const lapsed = rating === Difficulty.AGAIN && card.state === CardState.REVIEW;
+    const inRelearning = lapsed || card.state === CardState.RELEARNING;
+    const steps = inRelearning ? params.relearningSteps : params.learningSteps;
+    const currentStep = lapsed || isNew ? 0 : card.step ?? 0;
+
+    // Decide whether the card stays on a sub-day step or graduates to a day-scale interval
+    let nextStep: number | null = null;
+    let delayMinutes = 0;
+    if (rating === Difficulty.AGAIN && steps.length > 0) {
+      nextStep = 0;
+      delayMinutes = steps[0];
+    } else if (rating === Difficulty.HARD && card.state !== CardState.REVIEW && currentStep < steps.length) {
+      // HARD repeats the current step; on the first step it splits the gap to the next one
+      nextStep = currentStep;
+      delayMinutes = currentStep === 0 && steps.length > 1 ? (steps[0] + steps[1]) / 2 : steps[currentStep] * 1.5;
+    } else if (rating === Difficulty.GOOD && card.state !== CardState.REVIEW && currentStep + 1 < steps.length) {
+      nextStep = currentStep + 1;
+      delayMinutes = steps[nextStep];
+    }
+
+    const base = {
+      ...card,
+      stability: memory[rating].s,
+      difficultyRating: memory[rating].d,
+      elapsedDays: Math.round(elapsedDays),
+      reps: card.reps + 1,
+      lapses: (card.lapses ?? 0) + (lapsed ? 1 : 0),
+      lastReview: now,
+      updatedAt: now, // Update timestamp every time a review happens
+    };
+
+    if (nextStep !== null) {
+      return {
+        ...base,
+        state: inRelearning ? CardState.RELEARNING : CardState.LEARNING,
+        step: nextStep,
+        scheduledDays: 0,
+        due: now + Math.round(delayMinutes * MINUTE_MS),
+      };
+    }
+    // Without steps a failed card still comes back tomorrow rather than being dropped
+    const days = rating === Difficulty.AGAIN ? Math.min(intervals[Difficulty.AGAIN], 1) : intervals[rating];
+    return { ...base, state: CardState.REVIEW, step: 0, scheduledDays: days, due: now + days * DAY_MS };
+  };
+
+  return {
+    [Difficulty.AGAIN]: build(Difficulty.AGAIN),
+    [Difficulty.HARD]: build(Difficulty.HARD),
+    [Difficulty.GOOD]: build(Difficulty.GOOD),
+    [Difficulty.EASY]: build(Difficulty.EASY),
+  };
 };
+
+export const scheduleReview = (
+  card: Flashcard,
+  rating: Difficulty,
+  now: number = Date.now(),
+  params: SrsParams = DEFAULT_SRS_PARAMS
+): Flashcard => previewReview(card, now, params)[rating];
+
+/** Snapshot of a single rating, written next to the card so history survives later reviews. */
+export const createReviewLog = (
+  before: Flashcard,
+  after: Flashcard,
+  rating: Difficulty,
+  answerTimeMs: number,
+  template: CardTemplate = 'recognition'
+): ReviewLog => ({
+  id: Math.random().toString(36).substr(2, 9),
+  userId: after.userId,
+  cardId: after.id,
+  template,
+  rating,
+  reviewedAt: after.lastReview ?? after.updatedAt,
+  elapsedDays: after.elapsedDays,
+  answerTimeMs: Math.max(0, Math.round(answerTimeMs)),
+  previousState: before.state,
+  previousScheduledDays: before.scheduledDays,
+  previousStability: before.stability,
+  previousDifficultyRating: before.difficultyRating,
+  newState: after.state,
+  newScheduledDays: after.scheduledDays,
+  newStability: after.stability,
+  newDifficultyRating: after.difficultyRating,
+  due: after.due,
+});
@@ -0,0 +1,128 @@
+import { Flashcard, Difficulty, CardState, ReviewLog, SessionAnswer } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CARD_STATE_LABELS: Record<CardState, string> = {
+  [CardState.NEW]: 'New',
+  [CardState.LEARNING]: 'Learning',
+  [CardState.REVIEW]: 'Review',
+  [CardState.RELEARNING]: 'Relearning',
+};
+
+const startOfDay = (ts: number) => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/** Midnight `days` calendar days after the day of `ts`; fixed 24h steps drift across DST changes. */
+const addDays = (ts: number, days: number) => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+/** Local calendar key (YYYY-MM-DD) so activity lines up with the learner's own days. */
+export const dayKey = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Number of cards coming due on each of the next `days` days.
+ * Anything already overdue is counted on day 0.
+ */
+export const getDueForecast = (cards: Flashcard[], days: number = 30, now: number = Date.now()) => {
+  const today = startOfDay(now);
+  const forecast = Array.from({ length: days }, (_, i) => ({ date: addDays(today, i), count: 0 }));
+  cards.forEach((card) => {
+    // Rounded because a day gap that spans a DST change is an hour short or long
+    const offset = Math.max(0, Math.round((startOfDay(card.due) - today) / DAY_MS));
+    if (offset < days) forecast[offset].count++;
+  });
+  return forecast;
+};
+
+/** Reviews per calendar day, keyed by `dayKey`. */
+export const getReviewActivity = (logs: ReviewLog[]) => {
+  const activity: Record<string, number> = {};
+  logs.forEach((log) => {
+    const key = dayKey(log.reviewedAt);
+    activity[key] = (activity[key] || 0) + 1;
+  });
+  return activity;
+};
+
+/**
+ * Builds a week-column calendar ending today, like a contribution heatmap.
+ * Each column is a week (Sunday first); cells after today are null.
+ */
+export const getActivityCalendar = (logs: ReviewLog[], weeks: number = 26, now: number = Date.now()) => {
+  const activity = getReviewActivity(logs);
+  const today = dayKey(now);
+  const firstDay = addDays(now, -(new Date(now).getDay() + (weeks - 1) * 7));
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const date = addDays(firstDay, week * 7 + weekday);
+      const key = dayKey(date);
+      return key > today ? null : { date, count: activity[key] || 0 };
+    })
+  );
+};
+
+/**
+ * True retention: share of reviews not rated AGAIN, grouped by the state the card was in when reviewed.
+ * First-ever ratings of new cards are excluded since nothing was being recalled yet.
+ */
+export const getRetentionByState = (logs: ReviewLog[], since: number = 0) => {
+  const stats = [CardState.LEARNING, CardState.REVIEW, CardState.RELEARNING].map((state) => ({ state, total: 0, passed: 0 }));
+  logs.forEach((log) => {
+    if (log.reviewedAt < since) return;
+    const entry = stats.find((s) => s.state === log.previousState);
+    if (!entry) return;
+    entry.total++;
+    if (log.rating !== Difficulty.AGAIN) entry.passed++;
+  });
+  return stats.map((s) => ({ ...s, retention: s.total > 0 ? s.passed / s.total : null }));
+};
+
+export const countBy = <K extends string | number>(cards: Flashcard[], keyOf: (card: Flashcard) => K) => {
+  const counts = {} as Record<K, number>;
+  cards.forEach((card) => {
+    const key = keyOf(card);
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+};
+
+/** Per-source totals with how many cards are mature (interval of 21 days or more) and due now. */
+export const getSourceBreakdown = (cards: Flashcard[], now: number = Date.now()) => {
+  const sources: Record<string, { source: string; total: number; mature: number; due: number }> = {};
+  cards.forEach((card) => {
+    const key = card.source || 'Unknown';
+    const entry = sources[key] || (sources[key] = { source: key, total: 0, mature: 0, due: 0 });
+    entry.total++;
+    if (card.state === CardState.REVIEW && card.scheduledDays >= 21) entry.mature++;
+    if (card.due <= now) entry.due++;
+  });
+  return Object.values(sources).sort((a, b) => b.total - a.total);
+};
+
+/** Totals for the end-of-session screen. Accuracy counts every rating but Again as recalled. */
+export const summarizeSession = (answers: SessionAnswer[]) => {
+  const byRating: Record<Difficulty, number> = {
+    [Difficulty.AGAIN]: 0,
+    [Difficulty.HARD]: 0,
+    [Difficulty.GOOD]: 0,
+    [Difficulty.EASY]: 0,
+  };
+  answers.forEach((a) => { byRating[a.rating]++; });
+  return {
+    reviewed: answers.length,
+    byRating,
+    accuracy: answers.length > 0 ? 1 - byRating[Difficulty.AGAIN] / answers.length : 0,
+    timeMs: answers.reduce((sum, a) => sum + a.answerTimeMs, 0),
+    lapsedCardIds: Array.from(new Set(answers.filter((a) => a.lapsed).map((a) => a.cardId))),
+  };
+};
@@ -0,0 +1,408 @@
+import { Flashcard, ReviewLog, CardState, Difficulty, StudySession } from '../types';
+import { FlashcardRepository } from './repository';
+import { localStore, OutboxEntry } from './localStore';
+import { scheduleReview, DEFAULT_SRS_PARAMS, SrsParams } from './srsService';
+import { CARD_TEMPLATES, getTemplateCard, setTemplateCard } from './templateService';
+
+// --- Offline-First Sync ---
+// Every read is served from IndexedDB and every write lands there first, then queues an
+// outbox entry. Sync pulls the remote vault, merges it card by card, and flushes the outbox.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number; // Outbox entries waiting for the remote backend
+  lastSyncedAt: number | null;
+  error: string | null;
+}
+
+export interface SyncedRepository extends FlashcardRepository {
+  /** Begins background syncing for a signed-in user; pass null on logout. */
+  setActiveUser(userId: string | null): void;
+  /** The learner's scheduler settings, so merged reviews are replayed the way Study scheduled them. */
+  setSrsParams(params: SrsParams): void;
+  sync(userId: string): Promise<void>;
+  subscribe(listener: (status: SyncStatus) => void): () => void;
+}
+
+const lastSyncKey = (userId: string) => `lastSyncedAt:${userId}`;
+const sessionKey = (userId: string) => `studySession:${userId}`;
+
+const isLapse = (log: ReviewLog) => log.previousState === CardState.REVIEW && log.rating === Difficulty.AGAIN;
+
+/**
+ * Deterministic merge of two versions of the same card.
+ * - Content and schedule come from the copy with the newer `updatedAt` (remote wins ties).
+ * - If both sides logged reviews the other has not seen, the schedule is rebuilt by replaying
+ *   every review in time order from the last state both sides agreed on, so neither is dropped.
+ * - If only the older copy has unseen reviews (reviewed offline on one device, edited on another),
+ *   those reviews are replayed onto the newer copy from the snapshot before the first of them.
+ * - Each template is replayed from its own logs, since each has its own schedule, under `params`.
+ */
+export const mergeCard = (
+  local: Flashcard,
+  remote: Flashcard,
+  localLogs: ReviewLog[],
+  remoteLogs: ReviewLog[],
+  params: SrsParams = DEFAULT_SRS_PARAMS
+): Flashcard => {
+  const winner = local.updatedAt > remote.updatedAt ? local : remote;
+  let merged = winner;
+  CARD_TEMPLATES.forEach((template) => {
+    const ofTemplate = (logs: ReviewLog[]) => logs.filter((l) => (l.template ?? 'recognition') === template);
+    const replayed = replaySchedule(
+      getTemplateCard(local, template),
+      getTemplateCard(remote, template),
+      ofTemplate(localLogs),
+      ofTemplate(remoteLogs),
+      params
+    );
+    if (replayed) merged = setTemplateCard(merged, template, replayed);
+  });
+  return merged === winner ? winner : { ...merged, updatedAt: Math.max(local.updatedAt, remote.updatedAt, merged.updatedAt) };
+};
+
+/** Rebuilt schedule for one template, or null when the winning copy already holds every review. */
+const replaySchedule = (
+  local: Flashcard,
+  remote: Flashcard,
+  localLogs: ReviewLog[],
+  remoteLogs: ReviewLog[],
+  params: SrsParams
+): Flashcard | null => {
+  const localWins = local.updatedAt > remote.updatedAt;
+  const winner = localWins ? local : remote;
+  const localIds = new Set(localLogs.map((l) => l.id));
+  const remoteIds = new Set(remoteLogs.map((l) => l.id));
+  const localOnly = localLogs.filter((l) => !remoteIds.has(l.id));
+  const remoteOnly = remoteLogs.filter((l) => !localIds.has(l.id));
+  // Reviews only the winner has are already in its schedule
+  if ((localWins ? remoteOnly : localOnly).length === 0) return null;
+
+  const union = [...remoteLogs, ...localOnly].sort((a, b) => a.reviewedAt - b.reviewedAt || a.id.localeCompare(b.id));
+  const divergedAt = Math.min(...localOnly.map((l) => l.reviewedAt), ...remoteOnly.map((l) => l.reviewedAt));
+  const shared = union.filter((l) => l.reviewedAt < divergedAt);
+  const toReplay = union.filter((l) => l.reviewedAt >= divergedAt);
+  const first = toReplay[0];
+
+  // Rewind the winner to the snapshot recorded just before the first divergent review
+  const winnerLogs = (localWins ? localLogs : remoteLogs).filter((l) => l.reviewedAt >= divergedAt);
+  let card: Flashcard = {
+    ...winner,
+    state: first.previousState,
+    scheduledDays: first.previousScheduledDays,
+    stability: first.previousStability,
+    difficultyRating: first.previousDifficultyRating,
+    step: 0,
+    reps: Math.max(0, winner.reps - winnerLogs.length),
+    lapses: Math.max(0, (winner.lapses ?? 0) - winnerLogs.filter(isLapse).length),
+    lastReview: shared.length > 0 ? shared[shared.length - 1].reviewedAt : first.reviewedAt - first.elapsedDays * DAY_MS,
+  };
+  toReplay.forEach((log) => { card = scheduleReview(card, log.rating, log.reviewedAt, params); });
+  return card;
+};
+
+const isNetworkError = (err: unknown) =>
+  !navigator.onLine || err instanceof TypeError || (err as { code?: string })?.code === 'unavailable';
+
+export const createSyncedRepository = (remote: FlashcardRepository): SyncedRepository => {
+  let activeUserId: string | null = null;
+  let srsParams: SrsParams = DEFAULT_SRS_PARAMS;
+  let inFlight: Promise<void> | null = null;
+  const listeners = new Set<(status: SyncStatus) => void>();
+  let status: SyncStatus = { online: navigator.onLine, syncing: false, pending: 0, lastSyncedAt: null, error: null };
+
+  const emit = (patch: Partial<SyncStatus>) => {
+    status = { ...status, ...patch };
+    listeners.forEach((listener) => listener(status));
+  };
+
+  const refreshPending = async (userId: string) => {
+    emit({ pending: (await localStore.listOutbox(userId)).length });
+  };
+
+  const enqueue = async (userId: string, entries: Omit<OutboxEntry, 'userId' | 'queuedAt'>[]) => {
+    const queued = await localStore.listOutbox(userId);
+    // A queued card entry always uploads the latest local copy, so one per card is enough
+    const fresh = entries.filter((e) => {
+      if (e.kind === 'card') return !queued.some((q) => q.kind === 'card' && q.cardId === e.cardId);
+      if (e.kind === 'article') return !queued.some((q) => q.kind === 'article' && q.articleId === e.articleId);
+      if (e.kind === 'session') return !queued.some((q) => q.kind === 'session');
+      return true;
+    });
+    await localStore.enqueue(fresh.map((e) => ({ ...e, userId, queuedAt: Date.now() })));
+    await refreshPending(userId);
+  };
+
+  const flush = async (userId: string) => {
+    const queue = await localStore.listOutbox(userId);
+    for (let i = 0; i < queue.length;) {
+      const entry = queue[i];
+      if (entry.kind === 'card') {
+        // Upload runs of card saves as one bulk write
+        let j = i;
+        while (j < queue.length && queue[j].kind === 'card') j++;
+        const run = queue.slice(i, j);
+        const cards = (await Promise.all(run.map((e) => localStore.getCard(e.cardId!)))).filter((c): c is Flashcard => !!c);
+        if (cards.length > 0) await remote.saveCards(cards);
+        await localStore.dequeue(run.map((e) => e.seq!));
+        i = j;
+        continue;
+      }
+      if (entry.kind === 'log') {
+        let j = i;
+        while (j < queue.length && queue[j].kind === 'log') j++;
+        const run = queue.slice(i, j);
+        const logs = (await Promise.all(run.map((e) => localStore.getReviewLog(e.logId!)))).filter((l): l is ReviewLog => !!l);
+        if (logs.length > 0) await remote.saveReviewLogs(logs);
+        await localStore.dequeue(run.map((e) => e.seq!));
+        i = j;
+        continue;
+      }
+      if (entry.kind === 'delete') {
+        await remote.deleteCard(entry.cardId!);
+      } else if (entry.kind === 'article') {
+        const article = await localStore.getArticle(entry.articleId!);
+        if (article) await remote.saveArticle(article);
+      } else if (entry.kind === 'deleteArticle') {
+        await remote.deleteArticle(entry.articleId!);
+      } else if (entry.kind === 'session') {
+        // The latest local copy is sent, or the clear if the session has ended since
+        const session = await localStore.getMeta<StudySession | null>(sessionKey(userId));
+        if (session) await remote.saveStudySession(session);
+        else await remote.clearStudySession(userId);
+      } else if (entry.kind === 'undo') {
+        const card = await localStore.getCard(entry.cardId!);
+        if (card) await remote.undoReview(card, entry.logId!);
+      } else {
+        const [card, log] = await Promise.all([localStore.getCard(entry.cardId!), localStore.getReviewLog(entry.logId!)]);
+        // A card deleted after being reviewed offline has nothing left to attach the log to
+        if (card && log) await remote.recordReview(card, log);
+      }
+      await localStore.dequeue([entry.seq!]);
+      i++;
+    }
+  };
+
+  const pull = async (userId: string) => {
+    const [remoteCards, pulledLogs, localCards, localLogs, queue] = await Promise.all([
+      remote.listCards(userId),
+      remote.listReviewLogs(userId),
+      localStore.listCards(userId),
+      localStore.listReviewLogs(userId),
+      localStore.listOutbox(userId),
+    ]);
+    const pendingDeletes = new Set(queue.filter((e) => e.kind === 'delete').map((e) => e.cardId));
+    const pendingWrites = new Set(queue.filter((e) => e.kind !== 'delete' && e.kind !== 'article' && e.kind !== 'deleteArticle').map((e) => e.cardId));
+    // A review undone here but not yet remotely must not come back with the pull
+    const undone = new Set(queue.filter((e) => e.kind === 'undo').map((e) => e.logId));
+    const remoteLogs = pulledLogs.filter((l) => !undone.has(l.id));
+    const localById = new Map(localCards.map((c) => [c.id, c]));
+    const remoteById = new Map(remoteCards.map((c) => [c.id, c]));
+    const logsFor = (logs: ReviewLog[], cardId: string) => logs.filter((l) => l.cardId === cardId);
+
+    const toStore: Flashcard[] = [];
+    const toUpload: string[] = [];
+    remoteCards.forEach((remoteCard) => {
+      if (pendingDeletes.has(remoteCard.id)) return;
+      const localCard = localById.get(remoteCard.id);
+      if (!localCard) {
+        toStore.push(remoteCard);
+        return;
+      }
+      const merged = mergeCard(localCard, remoteCard, logsFor(localLogs, remoteCard.id), logsFor(remoteLogs, remoteCard.id), srsParams);
+      toStore.push(merged);
+      if (merged !== remoteCard) toUpload.push(merged.id);
+    });
+    // Cards missing remotely were deleted on another device, unless this device still has unsent edits
+    const removed = localCards.filter((c) => !remoteById.has(c.id) && !pendingWrites.has(c.id)).map((c) => c.id);
+
+    const localLogIds = new Set(localLogs.map((l) => l.id));
+    await localStore.putReviewLogs(remoteLogs.filter((l) => !localLogIds.has(l.id)));
+    await localStore.putCards(toStore);
+    await localStore.removeCards(removed);
+    await enqueue(userId, toUpload.filter((id) => !pendingWrites.has(id)).map((cardId) => ({ kind: 'card' as const, cardId })));
+    await pullArticles(userId, queue);
+    // An unsent local session is newer than anything remote; otherwise mirror the remote one
+    if (!queue.some((e) => e.kind === 'session')) {
+      await localStore.setMeta(sessionKey(userId), await remote.getStudySession(userId));
+    }
+  };
+
+  // Articles carry no review history, so the newer `updatedAt` simply wins
+  const pullArticles = async (userId: string, queue: OutboxEntry[]) => {
+    const [remoteArticles, localArticles] = await Promise.all([remote.listArticles(userId), localStore.listArticles(userId)]);
+    const pendingDeletes = new Set(queue.filter((e) => e.kind === 'deleteArticle').map((e) => e.articleId));
+    const pendingWrites = new Set(queue.filter((e) => e.kind === 'article').map((e) => e.articleId));
+    const localById = new Map(localArticles.map((a) => [a.id, a]));
+    const remoteIds = new Set(remoteArticles.map((a) => a.id));
+
+    const toStore = remoteArticles.filter((a) => {
+      if (pendingDeletes.has(a.id)) return false;
+      const local = localById.get(a.id);
+      return !local || a.updatedAt >= local.updatedAt;
+    });
+    const toUpload = localArticles.filter((a) => remoteIds.has(a.id) && !pendingWrites.has(a.id)
+      && a.updatedAt > remoteArticles.find((r) => r.id === a.id)!.updatedAt);
+    const removed = localArticles.filter((a) => !remoteIds.has(a.id) && !pendingWrites.has(a.id)).map((a) => a.id);
+
+    await localStore.putArticles(toStore);
+    await localStore.removeArticles(removed);
+    await enqueue(userId, toUpload.map((a) => ({ kind: 'article' as const, articleId: a.id })));
+  };
+
+  const sync = (userId: string): Promise<void> => {
+    if (inFlight) return inFlight;
+    inFlight = (async () => {
+      emit({ syncing: true, error: null });
+      try {
+        // Pull before flushing: queued entries re-read the local copy, so they upload the merged result
+        await pull(userId);
+        await flush(userId);
+        const now = Date.now();
+        await localStore.setMeta(lastSyncKey(userId), now);
+        emit({ lastSyncedAt: now });
+      } catch (err) {
+        if (!isNetworkError(err)) console.error("Sync Error:", err);
+        emit({ error: isNetworkError(err) ? null : (err as Error).message || 'Sync failed.' });
+      } finally {
+        await refreshPending(userId);
+        emit({ syncing: false });
+        inFlight = null;
+      }
+    })();
+    return inFlight;
+  };
+
+  const syncInBackground = (userId: string) => {
+    if (navigator.onLine) sync(userId);
+  };
+
+  window.addEventListener('online', () => {
+    emit({ online: true });
+    if (activeUserId) sync(activeUserId);
+  });
+  window.addEventListener('offline', () => emit({ online: false }));
+
+  return {
+    listCards: async (userId) => {
+      // The very first load on a device has nothing local yet, so wait for the initial pull
+      if (!(await localStore.getMeta(lastSyncKey(userId))) && navigator.onLine) await sync(userId);
+      return localStore.listCards(userId);
+    },
+
+    saveCard: async (card) => {
+      await localStore.putCards([card]);
+      await enqueue(card.userId, [{ kind: 'card', cardId: card.id }]);
+      syncInBackground(card.userId);
+    },
+
+    saveCards: async (cards) => {
+      if (cards.length === 0) return;
+      await localStore.putCards(cards);
+      await enqueue(cards[0].userId, cards.map((c) => ({ kind: 'card' as const, cardId: c.id })));
+      syncInBackground(cards[0].userId);
+    },
+
+    deleteCard: async (cardId) => {
+      const card = await localStore.getCard(cardId);
+      const userId = card?.userId ?? activeUserId;
+      await localStore.removeCards([cardId]);
+      if (!userId) return;
+      await enqueue(userId, [{ kind: 'delete', cardId }]);
+      syncInBackground(userId);
+    },
+
+    findCardsByWord: async (userId, normalizedWords) => {
+      if (!(await localStore.getMeta(lastSyncKey(userId))) && navigator.onLine) await sync(userId);
+      return localStore.findCardsByWord(userId, normalizedWords);
+    },
+
+    listReviewLogs: async (userId) => {
+      if (!(await localStore.getMeta(lastSyncKey(userId))) && navigator.onLine) await sync(userId);
+      return localStore.listReviewLogs(userId);
+    },
+
+    saveReviewLogs: async (logs) => {
+      if (logs.length === 0) return;
+      await localStore.putReviewLogs(logs);
+      await enqueue(logs[0].userId, logs.map((l) => ({ kind: 'log' as const, cardId: l.cardId, logId: l.id })));
+      syncInBackground(logs[0].userId);
+    },
+
+    recordReview: async (card, log) => {
+      await localStore.putCards([card]);
+      await localStore.putReviewLogs([log]);
+      await enqueue(card.userId, [{ kind: 'review', cardId: card.id, logId: log.id }]);
+      syncInBackground(card.userId);
+    },
+
+    undoReview: async (card, logId) => {
+      await localStore.putCards([card]);
+      await localStore.removeReviewLogs([logId]);
+      // A review still queued finds its log gone and is skipped, so the undo entry alone settles it
+      await enqueue(card.userId, [{ kind: 'undo', cardId: card.id, logId }]);
+      syncInBackground(card.userId);
+    },
+
+    listArticles: async (userId) => {
+      if (!(await localStore.getMeta(lastSyncKey(userId))) && navigator.onLine) await sync(userId);
+      return localStore.listArticles(userId);
+    },
+
+    saveArticle: async (article) => {
+      await localStore.putArticles([article]);
+      await enqueue(article.userId, [{ kind: 'article', articleId: article.id }]);
+      syncInBackground(article.userId);
+    },
+
+    deleteArticle: async (articleId) => {
+      const article = await localStore.getArticle(articleId);
+      const userId = article?.userId ?? activeUserId;
+      await localStore.removeArticles([articleId]);
+      if (!userId) return;
+      await enqueue(userId, [{ kind: 'deleteArticle', articleId }]);
+      syncInBackground(userId);
+    },
+
+    getStudySession: async (userId) => {
+      // Always pulled fresh when online, so a session left on another device picks up where it stopped
+      if (navigator.onLine) await sync(userId);
+      return (await localStore.getMeta<StudySession | null>(sessionKey(userId))) ?? null;
+    },
+
+    saveStudySession: async (session) => {
+      await localStore.setMeta(sessionKey(session.userId), session);
+      await enqueue(session.userId, [{ kind: 'session' }]);
+      syncInBackground(session.userId);
+    },
+
+    clearStudySession: async (userId) => {
+      await localStore.setMeta(sessionKey(userId), null);
+      await enqueue(userId, [{ kind: 'session' }]);
+      syncInBackground(userId);
+    },
+
+    setSrsParams: (params) => {
+      srsParams = params;
+    },
+
+    setActiveUser: (userId) => {
+      activeUserId = userId;
+      if (!userId) return;
+      localStore.getMeta<number>(lastSyncKey(userId)).then((ts) => emit({ lastSyncedAt: ts ?? null }));
+      refreshPending(userId);
+      syncInBackground(userId);
+    },
+
+    sync,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(status);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
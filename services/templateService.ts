@@ -0,0 +1,96 @@
+import { Flashcard, CardState, CardTemplate, TemplateSchedule, StudyItem } from '../types';
+import { segmentText } from './readerService';
+import { isStudyable } from './cardStatusService';
+
+// --- Card Templates ---
+// One note yields several study cards. Recognition uses the note's own SRS fields so existing
+// stats and exports keep working; the other templates are scheduled in `card.templates`.
+
+export const CARD_TEMPLATES: CardTemplate[] = ['recognition', 'reverse', 'cloze', 'listening'];
+
+export const TEMPLATE_LABELS: Record<CardTemplate, string> = {
+  recognition: 'Recognition',
+  reverse: 'Recall',
+  cloze: 'Cloze',
+  listening: 'Listening',
+};
+
+export interface ListeningSettings {
+  playback: 'word' | 'context'; // What is read aloud
+  answer: 'type' | 'choose'; // Dictate what was heard, or pick the meaning
+  autoplay: boolean; // Play audio as soon as a card is shown
+}
+
+export const DEFAULT_LISTENING: ListeningSettings = { playback: 'word', answer: 'type', autoplay: true };
+
+export const DEFAULT_TEMPLATES: CardTemplate[] = ['recognition'];
+
+const pickSchedule = (card: Flashcard): TemplateSchedule => ({
+  due: card.due,
+  stability: card.stability,
+  difficultyRating: card.difficultyRating,
+  elapsedDays: card.elapsedDays,
+  scheduledDays: card.scheduledDays,
+  reps: card.reps,
+  lapses: card.lapses ?? 0,
+  state: card.state,
+  step: card.step ?? 0,
+  lastReview: card.lastReview ?? 0,
+});
+
+// A template nobody has studied yet starts as a new card, due from the moment the note was made
+const newSchedule = (card: Flashcard): TemplateSchedule => ({
+  due: card.createdAt,
+  stability: 0,
+  difficultyRating: 0,
+  elapsedDays: 0,
+  scheduledDays: 0,
+  reps: 0,
+  lapses: 0,
+  state: CardState.NEW,
+  step: 0,
+  lastReview: 0,
+});
+
+/** Lapses across every template of the note. */
+export const totalLapses = (card: Flashcard) =>
+  CARD_TEMPLATES.reduce((sum, template) => sum + (getTemplateCard(card, template).lapses ?? 0), 0);
+
+/** The note seen through one template: same content, that template's schedule. */
+export const getTemplateCard = (card: Flashcard, template: CardTemplate): Flashcard => {
+  if (template === 'recognition') return card;
+  const schedule = card.templates?.[template] ?? newSchedule(card);
+  // lastReview 0 stands for "never"; the scheduler expects it absent
+  return { ...card, ...schedule, lastReview: schedule.lastReview || undefined };
+};
+
+/** Writes a rescheduled template card back into its note, leaving the other templates untouched. */
+export const setTemplateCard = (card: Flashcard, template: CardTemplate, scheduled: Flashcard): Flashcard => {
+  const updatedAt = Math.max(card.updatedAt, scheduled.updatedAt);
+  if (template === 'recognition') return { ...card, ...pickSchedule(scheduled), updatedAt };
+  return { ...card, templates: { ...card.templates, [template]: pickSchedule(scheduled) }, updatedAt };
+};
+
+const CLOZE_BLANK = '_____';
+
+/** The context sentence with the word (any form of it) blanked, or null if it never appears. */
+export const clozeContext = (card: Flashcard): string | null => {
+  const segments = segmentText(card.context, [card]);
+  if (!segments.some((s) => s.card)) return null;
+  return segments.map((s) => (s.card ? CLOZE_BLANK : s.text)).join('');
+};
+
+export const supportsTemplate = (card: Flashcard, template: CardTemplate) =>
+  template !== 'cloze' || clozeContext(card) !== null;
+
+/** The text read aloud for a listening card; cards without a context fall back to the word. */
+export const listeningText = (card: Flashcard, settings: ListeningSettings) =>
+  settings.playback === 'context' && card.context.trim() ? card.context : card.word;
+
+/** Every enabled template of every card that is due, as individual study items. Suspended and buried notes are skipped. */
+export const getDueItems = (cards: Flashcard[], templates: CardTemplate[], now: number = Date.now()): StudyItem[] =>
+  cards.filter((card) => isStudyable(card, now)).flatMap((card) =>
+    templates
+      .filter((template) => supportsTemplate(card, template) && getTemplateCard(card, template).due <= now)
+      .map((template) => ({ cardId: card.id, template }))
+  );
@@ -0,0 +1,114 @@
+import { Flashcard, CardState } from '../types';
+import { isCefrLevel } from './profileService';
+import { isBuried } from './cardStatusService';
+
+// --- Bank Search & Filters ---
+// Filters live in the URL query string so a view of the vault can be bookmarked.
+
+export type DueFilter = 'all' | 'now' | 'today' | 'week';
+export type SortKey = 'created' | 'due' | 'reps' | 'alpha';
+export type StatusFilter = '' | 'suspended' | 'buried' | 'leech';
+
+export interface VaultFilters {
+  q: string;
+  difficulty: '' | Flashcard['difficulty'];
+  source: string;
+  article: string; // Library article id, set by "Open in Vault"
+  state: '' | CardState;
+  status: StatusFilter;
+  due: DueFilter;
+  sort: SortKey;
+  dir: 'asc' | 'desc';
+  page: number;
+}
+
+export const DEFAULT_FILTERS: VaultFilters = {
+  q: '',
+  difficulty: '',
+  source: '',
+  article: '',
+  state: '',
+  status: '',
+  due: 'all',
+  sort: 'created',
+  dir: 'desc',
+  page: 1,
+};
+
+export const PAGE_SIZE = 40;
+
+const DUE_FILTERS: DueFilter[] = ['all', 'now', 'today', 'week'];
+const SORT_KEYS: SortKey[] = ['created', 'due', 'reps', 'alpha'];
+const STATUS_FILTERS: StatusFilter[] = ['suspended', 'buried', 'leech'];
+
+export const parseFilters = (params: URLSearchParams): VaultFilters => {
+  const difficulty = params.get('difficulty');
+  const state = Number(params.get('state') ?? NaN);
+  const due = params.get('due') as DueFilter;
+  const sort = params.get('sort') as SortKey;
+  const status = params.get('status') as StatusFilter;
+  const page = parseInt(params.get('page') || '1', 10);
+  return {
+    q: params.get('q') || '',
+    difficulty: isCefrLevel(difficulty) ? difficulty : '',
+    source: params.get('source') || '',
+    article: params.get('article') || '',
+    state: params.has('state') && state in CardState ? state as CardState : '',
+    status: STATUS_FILTERS.includes(status) ? status : '',
+    due: DUE_FILTERS.includes(due) ? due : DEFAULT_FILTERS.due,
+    sort: SORT_KEYS.includes(sort) ? sort : DEFAULT_FILTERS.sort,
+    dir: params.get('dir') === 'asc' ? 'asc' : 'desc',
+    page: page > 0 ? page : 1,
+  };
+};
+
+/** Only non-default values are written, keeping bookmarked URLs short. */
+export const toSearchParams = (filters: VaultFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  (Object.keys(DEFAULT_FILTERS) as (keyof VaultFilters)[]).forEach((key) => {
+    if (filters[key] !== DEFAULT_FILTERS[key]) params.set(key, String(filters[key]));
+  });
+  return params;
+};
+
+/** Lowercases and strips diacritics so "giam" finds "giảm". */
+export const normalizeText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\u0111/g, 'd');
+
+const dueCutoff = (due: DueFilter, now: number) => {
+  if (due === 'now') return now;
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  if (due === 'week') end.setDate(end.getDate() + 6);
+  return end.getTime();
+};
+
+export const applyFilters = (cards: Flashcard[], filters: VaultFilters, now: number = Date.now()): Flashcard[] => {
+  const terms = normalizeText(filters.q).split(/\s+/).filter(Boolean);
+  const cutoff = filters.due === 'all' ? null : dueCutoff(filters.due, now);
+
+  const matched = cards.filter((card) => {
+    if (filters.difficulty && card.difficulty !== filters.difficulty) return false;
+    if (filters.source && card.source !== filters.source) return false;
+    if (filters.article && card.articleId !== filters.article) return false;
+    if (filters.state !== '' && card.state !== filters.state) return false;
+    if (filters.status === 'suspended' && !card.suspended) return false;
+    if (filters.status === 'buried' && !isBuried(card, now)) return false;
+    if (filters.status === 'leech' && !card.leech) return false;
+    if (cutoff !== null && card.due > cutoff) return false;
+    if (terms.length > 0) {
+      const haystack = normalizeText(`${card.word} ${card.meaning} ${card.context}`);
+      if (!terms.every((term) => haystack.includes(term))) return false;
+    }
+    return true;
+  });
+
+  const direction = filters.dir === 'asc' ? 1 : -1;
+  const compare: Record<SortKey, (a: Flashcard, b: Flashcard) => number> = {
+    created: (a, b) => a.createdAt - b.createdAt,
+    due: (a, b) => a.due - b.due,
+    reps: (a, b) => a.reps - b.reps,
+    alpha: (a, b) => a.word.localeCompare(b.word),
+  };
+  return matched.sort((a, b) => compare[filters.sort](a, b) * direction || a.id.localeCompare(b.id));
+};
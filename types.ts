@@ -6,15 +6,28 @@ export enum Difficulty {
   EASY = 4
 }
 
+export enum CardState {
+  NEW = 0,
+  LEARNING = 1,
+  REVIEW = 2,
+  RELEARNING = 3
+}
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
 export interface Flashcard {
   id: string;
   userId: string; // Ties the card to a specific user identity
   word: string;
+  normalizedWord?: string; // Word-family key from `normalizeWord`, indexed for duplicate lookups
   pronunciation: string;
-  vietnameseMeaning: string;
+  meaning: string; // Written in `meaningLanguage`
+  meaningLanguage: string; // ISO 639-1 code of the learner's language when the card was made
   context: string;
-  difficulty: 'C1' | 'C2';
+  mnemonic?: string; // Memory hook in `meaningLanguage`, usually written for a leech
+  difficulty: CefrLevel;
   source: string;
+  articleId?: string; // Library article the card was extracted from, if any
   createdAt: number;
   updatedAt: number; // Used to determine the latest version during cross-device sync
   // SRS state
@@ -24,7 +37,87 @@ export interface Flashcard {
   elapsedDays: number;
   scheduledDays: number;
   reps: number;
-  state: number;
+  lapses?: number; // Absent on cards created before FSRS scheduling
+  state: CardState;
+  step?: number; // Index into the (re)learning steps while state is LEARNING or RELEARNING
+  lastReview?: number; // timestamp of the most recent rating
+  // The fields above schedule the recognition card; other templates keep their own state here
+  templates?: Partial<Record<Exclude<CardTemplate, 'recognition'>, TemplateSchedule>>;
+  pronunciationAttempts?: PronunciationAttempt[]; // Most recent last, capped in pronunciationService
+  // Study status, see cardStatusService; absent on cards that were never suspended or buried
+  suspended?: boolean;
+  buriedUntil?: number; // timestamp
+  leech?: boolean;
+}
+
+// Study cards generated from one note: word -> meaning recognition, meaning -> word recall,
+// cloze, and listening (audio only)
+export type CardTemplate = 'recognition' | 'reverse' | 'cloze' | 'listening';
+
+export type TemplateSchedule = Pick<
+  Flashcard,
+  'due' | 'stability' | 'difficultyRating' | 'elapsedDays' | 'scheduledDays' | 'reps' | 'lapses' | 'state' | 'step' | 'lastReview'
+>;
+
+export interface PronunciationIssue {
+  segment: string; // Syllable or phoneme group of the target that was off
+  expected: string; // IPA the learner should have produced
+  heard: string; // What the assessor heard instead
+  tip?: string;
+}
+
+export interface PronunciationAttempt {
+  at: number; // timestamp
+  target: 'word' | 'context';
+  score: number; // 0-100
+  transcript: string;
+  issues: PronunciationIssue[];
+}
+
+export interface ReviewLog {
+  id: string;
+  userId: string;
+  cardId: string;
+  template?: CardTemplate; // Absent on logs written before templates; those are recognition
+  rating: Difficulty;
+  reviewedAt: number; // timestamp
+  elapsedDays: number; // Days since the previous review at the time of rating
+  answerTimeMs: number; // Time from showing the card to rating it
+  // Scheduling snapshot before and after the rating
+  previousState: CardState;
+  previousScheduledDays: number;
+  previousStability: number;
+  previousDifficultyRating: number;
+  newState: CardState;
+  newScheduledDays: number;
+  newStability: number;
+  newDifficultyRating: number;
+  due: number; // timestamp the rating scheduled the card for
+}
+
+// One card seen through one template: the unit a study queue is made of
+export interface StudyItem {
+  cardId: string;
+  template: CardTemplate;
+}
+
+export interface SessionAnswer {
+  cardId: string;
+  template: CardTemplate;
+  rating: Difficulty;
+  answerTimeMs: number;
+  lapsed: boolean; // A review card that was forgotten
+}
+
+// A study session in progress, saved after every rating so it can be resumed on any device
+export interface StudySession {
+  userId: string;
+  queue: StudyItem[]; // Items before `index` have been answered
+  index: number;
+  stepCards: StudyItem[]; // Learning-step repeats waiting to be re-inserted
+  answers: SessionAnswer[];
+  startedAt: number;
+  updatedAt: number;
 }
 
 export interface ArticleData {
@@ -35,8 +128,34 @@ export interface ArticleData {
   words: Flashcard[];
 }
 
+export interface Article {
+  id: string;
+  userId: string;
+  title: string;
+  author: string;
+  summary: string; // Short summary returned with the extraction
+  insights?: string; // Markdown key points from the Summarize action
+  url: string;
+  content?: string; // Pasted text, kept so the article can be re-summarized
+  cardIds: string[]; // Cards this article added to the vault
+  processedAt?: number;
+  summarizedAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface User {
   id: string;
   email: string;
   token?: string;
 }
+
+// What the learner wants extracted; drives the prompts and the checks on the model's answer
+export interface LearningProfile {
+  nativeLanguage: string; // ISO 639-1 code that card meanings are written in
+  cefrMin: CefrLevel;
+  cefrMax: CefrLevel;
+  domains: string[]; // Topics to favour when picking words; empty means any
+  wordsPerArticle: number;
+  includePhrases: boolean; // Phrasal verbs and idioms as well as single words
+}
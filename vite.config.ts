@@ -8,6 +8,9 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 3001}`,
+        },
       },
       plugins: [react()],
       define: {